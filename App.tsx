@@ -1,60 +1,189 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Settings, Mic, MicOff, Play, Square, Headphones, Activity, Globe, MessageSquare, AlertCircle, RefreshCw, ChevronLeft, Lock, Key, ArrowRight, ShieldCheck } from 'lucide-react';
-import { Language, SessionConfig, MessageLog } from './types';
+import React, { useState, useRef, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { Settings, Mic, MicOff, Play, Square, Headphones, Activity, Globe, MessageSquare, AlertCircle, RefreshCw, ChevronLeft, Lock, Key, ShieldCheck, Download, X, History, Disc, Plus, BookOpen, Hand, AudioLines, EarOff, Volume2, Subtitles } from 'lucide-react';
+import { EchoGuardMode, GlossaryEntry, Language, SessionConfig, SessionTranscript, TranslationStrategy } from './types';
 import { useLiveTranslator } from './hooks/useLiveTranslator';
+import { useIdleTimer } from './hooks/useIdleTimer';
+import { useCaptionsBroadcast } from './hooks/useCaptionsBroadcast';
+import { talkShortcuts, usePushToTalk } from './hooks/usePushToTalk';
 import { Visualizer } from './components/Visualizer';
+import { ExchangeCard } from './components/ExchangeCard';
+import { ExportOptions } from './components/ExportOptions';
+import { HistoryView } from './components/HistoryView';
+import { LanguageSelect } from './components/LanguageSelect';
+import { GlossaryManager } from './components/GlossaryManager';
+import { LockScreen } from './components/LockScreen';
+import { DeviceLockSettings } from './components/DeviceLockSettings';
+import { VoiceSettings } from './components/VoiceSettings';
+import { TalkButton } from './components/TalkButton';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { AudioDeviceSettings } from './components/AudioDeviceSettings';
+import { TextMessageBar } from './components/TextMessageBar';
+import { TranscriptStore } from './core/TranscriptStore';
+import { SessionRecorder } from './core/SessionRecorder';
+import { ExportFormat, downloadSession } from './utils/export';
+import { DEFAULT_LANGUAGE_A, DEFAULT_LANGUAGE_B, LANGUAGES, languageLabel } from './utils/languageRegistry';
+import { pivotLanguageOf } from './utils/language';
+import { DEFAULT_VAD_SENSITIVITY } from './utils/vad';
+import { activeGlossary, loadGlossary, saveGlossary } from './utils/glossary';
+import { forgetApiKey, openVault, readApiKey, writeApiKey } from './utils/keyVault';
+import { validateApiKey } from './core/transport';
+import { AutoLockMinutes, hasPin, loadAutoLockMinutes, saveAutoLockMinutes } from './utils/deviceLock';
+import { loadInterpreterVoice, saveInterpreterVoice, sessionVoiceFor } from './utils/voices';
+import { AudioDevicePreferences, loadAudioDevicePreferences, saveAudioDevicePreferences } from './utils/audioDevices';
+import { RetentionDays, loadRetentionDays, purgeExpiredSessions, saveRetentionDays, saveSession } from './utils/sessionHistory';
 
-const PIN_CODE = "6841";
+// Delay before the running session is written to history after a change
+const AUTOSAVE_DELAY_MS = 2000;
+const KEY_SAVE_DELAY_MS = 500;
+// Retention is also applied on this interval, for tabs that stay open for days
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Set at build time to connect through the relay in server/ instead of
+// holding an API key in the browser
+const RELAY_URL = process.env.RELAY_URL || null;
+
+type KeyStatus = { state: 'unchecked' | 'checking' | 'valid' } | { state: 'invalid'; message: string };
+
+// One interpreter voice has to render every utterance into each target
+// language in turn, so keep meetings to a handful of languages
+const MAX_LANGUAGES = 5;
+
+const STRATEGY_OPTIONS: { value: TranslationStrategy; label: string; description: string }[] = [
+  { value: 'broadcast', label: 'Broadcast', description: 'Everything is translated into every other language' },
+  { value: 'pivot', label: 'Pivot', description: 'Everything is translated into one shared language' },
+];
+
+const ECHO_GUARD_OPTIONS: { value: EchoGuardMode; label: string; description: string }[] = [
+  { value: 'off', label: 'Off', description: 'With headphones' },
+  { value: 'gate', label: 'Pause mic', description: 'While the interpreter speaks' },
+  { value: 'reference', label: 'Filter echo', description: 'Lets people talk over it' },
+];
+
+const participantLabel = (index: number) =>
+  index === 0 ? 'Interlocutor A (Left)'
+    : index === 1 ? 'Interlocutor B (Right)'
+    : `Participant ${String.fromCharCode(65 + index)}`;
 
 const App: React.FC = () => {
   // Authentication State
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [pinInput, setPinInput] = useState("");
-  const [authError, setAuthError] = useState(false);
+  const [pinConfigured, setPinConfigured] = useState(() => hasPin());
+  const [autoLockMinutes, setAutoLockMinutes] = useState<AutoLockMinutes>(() => loadAutoLockMinutes());
 
   // App Config State
   const [userApiKey, setUserApiKey] = useState("");
+  // Decrypts the stored API key; only held while the device is unlocked
+  const [vaultKey, setVaultKey] = useState<CryptoKey | null>(null);
+  const [keyStatus, setKeyStatus] = useState<KeyStatus>({ state: 'unchecked' });
   const [isSetup, setIsSetup] = useState(true);
+  const [setupTab, setSetupTab] = useState<'session' | 'glossary' | 'history'>('session');
   const [config, setConfig] = useState<SessionConfig>({
-    languageA: Language.ITALIAN,
-    languageB: Language.ENGLISH,
-    splitAudio: false
+    languages: [DEFAULT_LANGUAGE_A, DEFAULT_LANGUAGE_B],
+    strategy: 'broadcast',
+    splitAudio: false,
+    recordAudio: false,
+    voiceActivityDetection: true,
+    vadSensitivity: DEFAULT_VAD_SENSITIVITY
   });
-  const [logs, setLogs] = useState<MessageLog[]>([]);
+  const [transcript] = useState(() => new TranscriptStore([DEFAULT_LANGUAGE_A, DEFAULT_LANGUAGE_B]));
+  const exchanges = useSyncExternalStore(transcript.subscribe, transcript.getSnapshot);
+  const [recorder] = useState(() => new SessionRecorder());
   const logsEndRef = useRef<HTMLDivElement>(null);
+  const [sessionStartedAt, setSessionStartedAt] = useState<Date | null>(null);
+  const [sessionEndedAt, setSessionEndedAt] = useState<Date | null>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showSavePrompt, setShowSavePrompt] = useState(false);
 
-  // Load API Key from local storage if available
-  useEffect(() => {
-    const storedKey = localStorage.getItem('gemini_api_key');
-    if (storedKey) {
-      setUserApiKey(storedKey);
-    }
-  }, []);
+  // Session History State
+  const [retentionDays, setRetentionDays] = useState<RetentionDays>(() => loadRetentionDays());
+  const [purgedCount, setPurgedCount] = useState(0); // Sessions deleted under the current retention period
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const historyEnabled = retentionDays !== 0;
 
-  const handlePinSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (pinInput === PIN_CODE) {
-      setIsAuthenticated(true);
-      setAuthError(false);
-    } else {
-      setAuthError(true);
-      setPinInput("");
+  // Glossary State
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(() => loadGlossary());
+  const sessionGlossary = useMemo(() => activeGlossary(glossary, config.languages), [glossary, config.languages]);
+
+  // Voice State
+  // One voice speaks every translation
+  const [interpreterVoice, setInterpreterVoice] = useState<string | null>(() => loadInterpreterVoice());
+  const sessionVoice = sessionVoiceFor(config.languages, interpreterVoice);
+
+  // Audio Device State
+  const [audioDevices, setAudioDevices] = useState<AudioDevicePreferences>(() => loadAudioDevicePreferences());
+  const sameLanguage = new Set(config.languages).size !== config.languages.length;
+  const isMultiParty = config.languages.length > 2;
+  const vadSensitivity = config.vadSensitivity ?? DEFAULT_VAD_SENSITIVITY;
+  // One mic per speaker always listens for speech on each mic
+  const usesVad = !config.pushToTalk && !!(config.voiceActivityDetection || config.micPerSpeaker);
+
+  const setLanguageAt = (index: number, language: Language) => {
+    setConfig({ ...config, languages: config.languages.map((lang, i) => i === index ? language : lang) });
+  };
+
+  const addLanguage = () => {
+    const next = LANGUAGES.find(info => !config.languages.includes(info.code));
+    if (next) setConfig({ ...config, languages: [...config.languages, next.code] });
+  };
+
+  const removeLanguage = (index: number) => {
+    setConfig({ ...config, languages: config.languages.filter((_, i) => i !== index) });
+  };
+
+  // The PIN was just verified: open the key vault and decrypt the API key in memory
+  const handleUnlocked = async (pin: string) => {
+    try {
+      const key = await openVault(pin);
+      setVaultKey(key);
+      setUserApiKey((await readApiKey(key)) ?? "");
+    } catch (err) {
+      console.error("Failed to open the key vault", err);
     }
+    setPinConfigured(true);
+    setIsAuthenticated(true);
+  };
+
+  // The vault now opens with the new PIN. If it wasn't open before, load the
+  // key it holds, or saving the empty field would forget it.
+  const handlePinChanged = async (key: CryptoKey) => {
+    if (!vaultKey) setUserApiKey((await readApiKey(key)) ?? "");
+    setVaultKey(key);
   };
 
   const handleApiKeyChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newVal = e.target.value;
-    setUserApiKey(newVal);
-    localStorage.setItem('gemini_api_key', newVal);
+    setUserApiKey(e.target.value);
+    setKeyStatus({ state: 'unchecked' });
   };
 
-  const handleTranscription = (text: string, isUser: boolean) => {
-    setLogs(prev => [...prev, {
-      id: Math.random().toString(36).substring(7),
-      source: isUser ? 'user' : 'ai',
-      text,
-      timestamp: new Date()
-    }]);
+  // Encrypt the key once typing settles; clearing the field forgets it
+  useEffect(() => {
+    if (!vaultKey) return;
+    const timer = setTimeout(() => {
+      if (!userApiKey) {
+        forgetApiKey();
+        return;
+      }
+      writeApiKey(vaultKey, userApiKey).catch(err => console.error("Failed to store the API key", err));
+    }, KEY_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [userApiKey, vaultKey]);
+
+  const handleForgetKey = () => {
+    forgetApiKey();
+    setUserApiKey("");
+    setKeyStatus({ state: 'unchecked' });
+  };
+
+  const checkApiKey = async (): Promise<boolean> => {
+    setKeyStatus({ state: 'checking' });
+    try {
+      await validateApiKey(userApiKey, { relayUrl: RELAY_URL });
+      setKeyStatus({ state: 'valid' });
+      return true;
+    } catch (err: any) {
+      setKeyStatus({ state: 'invalid', message: err.message });
+      return false;
+    }
   };
 
   const { 
@@ -63,74 +192,184 @@ const App: React.FC = () => {
     connectionState, 
     isMuted, 
     toggleMute, 
-    volume,
-    errorMessage
+    isSpeechDetected,
+    isInterpreterSpeaking,
+    analyzerNode,
+    outputAnalyzerNode,
+    errorMessage,
+    listenChannel,
+    setListenChannel,
+    startTalking,
+    stopTalking,
+    sendText,
+    previewVoice,
+    stopPreview,
+    reconnectAttempt,
+    maxReconnectAttempts,
+    metrics
   } = useLiveTranslator({
-    languageA: config.languageA,
-    languageB: config.languageB,
+    languages: config.languages,
+    strategy: config.strategy,
+    pivotLanguage: config.pivotLanguage,
     splitAudio: config.splitAudio,
-    onTranscription: handleTranscription,
-    apiKey: userApiKey
+    glossary: sessionGlossary,
+    voice: sessionVoice,
+    pushToTalk: config.pushToTalk,
+    voiceActivityDetection: config.voiceActivityDetection,
+    vadSensitivity: config.vadSensitivity,
+    micPerSpeaker: config.micPerSpeaker,
+    echoGuard: config.echoGuard,
+    devices: audioDevices,
+    transcript,
+    recorder: config.recordAudio ? recorder : null,
+    apiKey: userApiKey,
+    relayUrl: RELAY_URL
+  });
+
+  // Apply the retention period on load, whenever it changes, and then hourly
+  useEffect(() => {
+    const purge = () => purgeExpiredSessions(retentionDays).catch(err => {
+      console.error("History cleanup failed", err);
+      return 0;
+    });
+    purge().then(setPurgedCount);
+    const timer = setInterval(() => {
+      purge().then(count => {
+        if (count > 0) setPurgedCount(total => total + count);
+      });
+    }, PURGE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [retentionDays]);
+
+  const handleRetentionChange = (days: RetentionDays) => {
+    setRetentionDays(days);
+    saveRetentionDays(days);
+  };
+
+  const handleGlossaryChange = (entries: GlossaryEntry[]) => {
+    setGlossary(entries);
+    saveGlossary(entries);
+  };
+
+  const handleVoiceChange = (voice: string) => {
+    setInterpreterVoice(voice);
+    saveInterpreterVoice(voice);
+  };
+
+  const handleAudioDevicesChange = (preferences: AudioDevicePreferences) => {
+    setAudioDevices(preferences);
+    saveAudioDevicePreferences(preferences);
+  };
+
+  // Locking pauses the mic and drops the decrypted API key; the session itself
+  // stays open behind the lock screen
+  const isLive = connectionState === 'connected' || connectionState === 'reconnecting';
+  const { talker, press: pressTalk, release: releaseTalk, stop: stopTalk } = usePushToTalk({
+    languages: config.languages,
+    enabled: !!config.pushToTalk && !isSetup && isLive,
+    onStart: startTalking,
+    onStop: stopTalking
   });
 
+  const lockDevice = () => {
+    stopTalk();
+    if (isLive && !isMuted) toggleMute();
+    stopPreview();
+    setVaultKey(null);
+    setUserApiKey("");
+    setIsAuthenticated(false);
+  };
+
+  const handleAutoLockChange = (minutes: AutoLockMinutes) => {
+    setAutoLockMinutes(minutes);
+    saveAutoLockMinutes(minutes);
+  };
+
+  // An ongoing conversation counts as use, so a meeting in progress isn't cut off
+  useIdleTimer(autoLockMinutes * 60 * 1000, lockDevice, isAuthenticated, exchanges);
+
+  // Second-screen captions follow the transcript, and go blank while locked
+  const openCaptions = useCaptionsBroadcast(exchanges, config.languages, !isAuthenticated);
+
   useEffect(() => {
     if (logsEndRef.current) {
       logsEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [logs]);
+  }, [exchanges]);
 
-  const handleStartSession = () => {
+  const handleStartSession = async () => {
+    // Catch a bad key here rather than as a failed connection
+    if (keyStatus.state !== 'valid' && !(await checkApiKey())) return;
+    stopPreview();
+    transcript.clear();
+    const startedAt = new Date();
+    if (config.recordAudio) recorder.start(startedAt);
+    setSessionId(Math.random().toString(36).substring(2));
+    setSessionStartedAt(startedAt);
+    setSessionEndedAt(null);
     setIsSetup(false);
     connect();
   };
 
+  const buildSessionTranscript = (): SessionTranscript => ({
+    config: { ...config, glossary: sessionGlossary, voice: sessionVoice },
+    startedAt: sessionStartedAt ?? new Date(),
+    endedAt: sessionEndedAt ?? new Date(),
+    exchanges,
+    metrics: metrics ?? undefined
+  });
+
+  const persistSession = (session: SessionTranscript) => {
+    if (!historyEnabled || !sessionId || session.exchanges.length === 0) return;
+    saveSession(sessionId, session).catch(err => console.error("Failed to save session", err));
+  };
+
+  // Keep the running session in history so a page refresh doesn't lose it
+  useEffect(() => {
+    if (isSetup || exchanges.length === 0) return;
+    const timer = setTimeout(() => persistSession(buildSessionTranscript()), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [exchanges, isSetup, sessionEndedAt]);
+
+  const handleExport = (format: ExportFormat) => {
+    downloadSession(buildSessionTranscript(), format);
+    setShowExportMenu(false);
+  };
+
+  const closeSession = () => {
+    // Recordings are only written once, when the session closes
+    const recording = config.recordAudio ? recorder.finish() : undefined;
+    persistSession({ ...buildSessionTranscript(), recording });
+    recorder.clear();
+    setShowSavePrompt(false);
+    setShowExportMenu(false);
+    setIsSetup(true);
+    setSessionStartedAt(null);
+    setSessionId(null);
+    transcript.clear();
+  };
+
+  // Offer to save the conversation before it is discarded
   const handleStopSession = () => {
     disconnect();
-    setIsSetup(true);
-    setLogs([]);
+    if (exchanges.length > 0) {
+      setSessionEndedAt(new Date());
+      setShowExportMenu(false);
+      setShowSavePrompt(true);
+    } else {
+      closeSession();
+    }
   };
 
   const handleRetry = () => {
+    setSessionEndedAt(null);
     disconnect();
     connect();
   };
 
   // 1. PIN Authentication Screen
   if (!isAuthenticated) {
-    return (
-      <div className="min-h-screen flex items-center justify-center p-6 bg-slate-950 text-white relative overflow-hidden">
-        <div className="absolute top-0 left-0 w-96 h-96 bg-blue-500/5 rounded-full blur-3xl -translate-x-1/2 -translate-y-1/2"></div>
-        
-        <div className="max-w-xs w-full bg-slate-900/80 backdrop-blur-xl border border-slate-800 rounded-2xl p-8 shadow-2xl z-10 flex flex-col items-center">
-          <div className="p-4 bg-slate-800 rounded-full mb-6">
-            <Lock className="w-8 h-8 text-blue-500" />
-          </div>
-          <h2 className="text-xl font-bold mb-2">OmniTranslate Safe</h2>
-          <p className="text-slate-400 text-sm mb-6 text-center">Enter access PIN to continue</p>
-          
-          <form onSubmit={handlePinSubmit} className="w-full space-y-4">
-            <input
-              type="password"
-              inputMode="numeric"
-              maxLength={4}
-              value={pinInput}
-              onChange={(e) => setPinInput(e.target.value)}
-              className={`w-full bg-slate-950 border ${authError ? 'border-red-500' : 'border-slate-700'} rounded-lg px-4 py-3 text-center text-2xl tracking-widest text-white focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all`}
-              placeholder="••••"
-              autoFocus
-            />
-            {authError && <p className="text-red-400 text-xs text-center">Incorrect PIN code</p>}
-            
-            <button 
-              type="submit"
-              className="w-full bg-blue-600 hover:bg-blue-500 text-white font-medium py-3 rounded-lg transition-colors flex items-center justify-center gap-2"
-            >
-              Unlock <ArrowRight className="w-4 h-4" />
-            </button>
-          </form>
-        </div>
-      </div>
-    );
+    return <LockScreen mode={pinConfigured ? 'unlock' : 'setup'} onUnlocked={handleUnlocked} />;
   }
 
   // 2. Configuration & Setup Screen
@@ -141,8 +380,8 @@ const App: React.FC = () => {
         <div className="absolute top-0 left-0 w-96 h-96 bg-blue-500/10 rounded-full blur-3xl -translate-x-1/2 -translate-y-1/2"></div>
         <div className="absolute bottom-0 right-0 w-96 h-96 bg-purple-500/10 rounded-full blur-3xl translate-x-1/2 translate-y-1/2"></div>
 
-        <div className="max-w-md w-full bg-slate-900/80 backdrop-blur-xl border border-slate-800 rounded-2xl p-8 shadow-2xl z-10">
-          <div className="flex items-center gap-3 mb-8">
+        <div className={`${setupTab === 'history' ? 'max-w-2xl' : 'max-w-md'} w-full bg-slate-900/80 backdrop-blur-xl border border-slate-800 rounded-2xl p-8 shadow-2xl z-10`}>
+          <div className="flex items-center gap-3 mb-6">
             <div className="p-3 bg-blue-600 rounded-lg shadow-lg shadow-blue-500/20">
               <Activity className="w-6 h-6 text-white" />
             </div>
@@ -154,59 +393,172 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {/* Setup / History Tabs */}
+          <div className="flex gap-1 p-1 bg-slate-950/60 border border-slate-800 rounded-lg mb-6">
+            <button
+              onClick={() => setSetupTab('session')}
+              className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-md text-sm transition-colors ${setupTab === 'session' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              <Settings className="w-4 h-4" />
+              New Session
+            </button>
+            <button
+              onClick={() => setSetupTab('glossary')}
+              className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-md text-sm transition-colors ${setupTab === 'glossary' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              <BookOpen className="w-4 h-4" />
+              Glossary
+            </button>
+            <button
+              onClick={() => setSetupTab('history')}
+              className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-md text-sm transition-colors ${setupTab === 'history' ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              <History className="w-4 h-4" />
+              History
+            </button>
+          </div>
+
+          {setupTab === 'history' ? (
+            <HistoryView retentionDays={retentionDays} onRetentionChange={handleRetentionChange} purgedCount={purgedCount} />
+          ) : setupTab === 'glossary' ? (
+            <GlossaryManager entries={glossary} onChange={handleGlossaryChange} languages={config.languages} />
+          ) : (
           <div className="space-y-6">
             {/* API Key Input */}
             <div className="space-y-2">
               <label className="text-xs font-semibold uppercase text-slate-500 flex items-center gap-2">
                 <Key className="w-3 h-3" />
-                Gemini API Key
+                {RELAY_URL ? 'Relay Access Token' : 'Gemini API Key'}
               </label>
               <input 
                 type="password"
                 value={userApiKey}
                 onChange={handleApiKeyChange}
-                placeholder="Paste your Gemini API Key here..."
+                placeholder={RELAY_URL ? "Paste the token your relay admin gave you..." : "Paste your Gemini API Key here..."}
                 className="w-full bg-slate-950 border border-slate-700 rounded-lg pl-4 pr-10 py-3 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all placeholder:text-slate-600"
               />
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={checkApiKey}
+                  disabled={(!userApiKey && !RELAY_URL) || keyStatus.state === 'checking'}
+                  className="px-3 py-1.5 rounded-lg bg-slate-800 text-xs text-white hover:bg-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {keyStatus.state === 'checking' ? 'Checking...' : RELAY_URL ? 'Check relay' : 'Validate key'}
+                </button>
+                <button
+                  onClick={handleForgetKey}
+                  disabled={!userApiKey}
+                  className="px-3 py-1.5 rounded-lg bg-slate-800 text-xs text-slate-300 hover:text-red-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {RELAY_URL ? 'Forget token' : 'Forget key'}
+                </button>
+                {keyStatus.state === 'valid' && <span className="text-xs text-green-400">{RELAY_URL ? 'Relay works' : 'Key works'}</span>}
+                {keyStatus.state === 'invalid' && <span className="text-xs text-red-400">{keyStatus.message}</span>}
+              </div>
               <p className="text-[10px] text-slate-500">
-                Your key is stored securely in your browser's local memory.
+                {RELAY_URL
+                  ? `Connecting through the relay at ${RELAY_URL}, which holds the API key. Leave the token empty if the relay is open.`
+                  : 'Your key is encrypted on this device with your PIN and only decrypted while unlocked.'}
               </p>
             </div>
 
             <div className="h-px bg-slate-800 my-4"></div>
 
-            {/* Person A Language */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
-                <Globe className="w-4 h-4 text-blue-400" />
-                Interlocutor A (Left)
-              </label>
-              <select 
-                value={config.languageA}
-                onChange={(e) => setConfig({...config, languageA: e.target.value as Language})}
-                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+            {/* Participant Languages */}
+            {config.languages.map((language, index) => (
+              <div key={index} className="space-y-2">
+                <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
+                  <Globe className={`w-4 h-4 ${index === 1 ? 'text-purple-400' : index === 0 ? 'text-blue-400' : 'text-teal-400'}`} />
+                  {participantLabel(index)}
+                  {index >= 2 && (
+                    <button
+                      onClick={() => removeLanguage(index)}
+                      className="ml-auto p-1 text-slate-500 hover:text-red-400 transition-colors"
+                      title="Remove participant"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </label>
+                <LanguageSelect
+                  value={language}
+                  onChange={(code) => setLanguageAt(index, code)}
+                  exclude={config.languages.filter((_, i) => i !== index)}
+                  ringClassName={index === 1 ? 'focus:ring-purple-500' : index === 0 ? 'focus:ring-blue-500' : 'focus:ring-teal-500'}
+                />
+              </div>
+            ))}
+            {sameLanguage && (
+              <p className="text-red-400 text-xs">Pick a different language for each person.</p>
+            )}
+
+            {config.languages.length < MAX_LANGUAGES && (
+              <button
+                onClick={addLanguage}
+                className="w-full flex items-center justify-center gap-2 py-2 rounded-lg border border-dashed border-slate-700 text-sm text-slate-400 hover:text-white hover:border-slate-500 transition-colors"
               >
-                {Object.values(Language).map(lang => (
-                  <option key={lang} value={lang}>{lang}</option>
-                ))}
-              </select>
+                <Plus className="w-4 h-4" />
+                Add a language
+              </button>
+            )}
+
+            {/* Multi-Party Strategy */}
+            {isMultiParty && (
+              <div className="space-y-3 p-4 bg-slate-800/50 rounded-lg border border-slate-700">
+                <p className="text-sm font-medium text-white">Translation strategy</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {STRATEGY_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setConfig({ ...config, strategy: option.value })}
+                      className={`p-3 rounded-lg border text-left transition-colors ${config.strategy === option.value ? 'border-blue-500 bg-blue-500/10' : 'border-slate-700 hover:border-slate-500'}`}
+                    >
+                      <p className="text-sm font-medium text-white">{option.label}</p>
+                      <p className="text-[11px] text-slate-400">{option.description}</p>
+                    </button>
+                  ))}
+                </div>
+                {config.strategy === 'pivot' && (
+                  <div className="space-y-1">
+                    <label className="text-xs font-semibold uppercase text-slate-500">Shared language</label>
+                    <select
+                      value={pivotLanguageOf(config)}
+                      onChange={(e) => setConfig({ ...config, pivotLanguage: e.target.value })}
+                      className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+                    >
+                      {config.languages.map(lang => (
+                        <option key={lang} value={lang}>{languageLabel(lang)}</option>
+                      ))}
+                    </select>
+                    <p className="text-[10px] text-slate-500">Speech in the shared language is translated into all the others.</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Interpreter Voice */}
+            <div className="space-y-3 p-4 bg-slate-800/50 rounded-lg border border-slate-700">
+              <p className="text-sm font-medium text-white">Interpreter voice</p>
+              <VoiceSettings
+                languages={config.languages}
+                voice={sessionVoice}
+                splitAudio={config.splitAudio}
+                onChange={handleVoiceChange}
+                onPreview={previewVoice}
+                onStopPreview={stopPreview}
+              />
             </div>
 
-            {/* Person B Language */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-slate-300 flex items-center gap-2">
-                <Globe className="w-4 h-4 text-purple-400" />
-                Interlocutor B (Right)
-              </label>
-              <select 
-                value={config.languageB}
-                onChange={(e) => setConfig({...config, languageB: e.target.value as Language})}
-                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-purple-500 outline-none transition-all"
-              >
-                {Object.values(Language).map(lang => (
-                  <option key={lang} value={lang}>{lang}</option>
-                ))}
-              </select>
+            {/* Audio Devices */}
+            <div className="space-y-3 p-4 bg-slate-800/50 rounded-lg border border-slate-700">
+              <p className="text-sm font-medium text-white">Microphones and speakers</p>
+              <AudioDeviceSettings
+                preferences={audioDevices}
+                onChange={handleAudioDevicesChange}
+                languages={config.languages}
+                micPerSpeaker={!!config.micPerSpeaker}
+                onMicPerSpeakerChange={(micPerSpeaker) => setConfig({ ...config, micPerSpeaker })}
+              />
             </div>
 
             {/* Split Audio Option */}
@@ -226,15 +578,119 @@ const App: React.FC = () => {
               </button>
             </div>
 
+            {/* Push-to-Talk Option */}
+            <div className="flex items-center justify-between p-4 bg-slate-800/50 rounded-lg border border-slate-700">
+              <div className="flex items-center gap-3">
+                <Hand className={`w-5 h-5 ${config.pushToTalk ? 'text-blue-400' : 'text-slate-500'}`} />
+                <div>
+                  <p className="text-sm font-medium text-white">Push to Talk</p>
+                  <p className="text-xs text-slate-400">Hold a speaker's button (keys 1-{config.languages.length}, or a clicker) to fix the direction</p>
+                </div>
+              </div>
+              <button 
+                onClick={() => setConfig({...config, pushToTalk: !config.pushToTalk})}
+                className={`w-12 h-6 rounded-full transition-colors relative ${config.pushToTalk ? 'bg-blue-600' : 'bg-slate-700'}`}
+              >
+                <div className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform ${config.pushToTalk ? 'left-7' : 'left-1'}`}></div>
+              </button>
+            </div>
+
+            {/* Voice Detection Option */}
+            <div className={`p-4 bg-slate-800/50 rounded-lg border border-slate-700 space-y-3 ${config.pushToTalk ? 'opacity-50' : ''}`}>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <AudioLines className={`w-5 h-5 ${config.voiceActivityDetection ? 'text-green-400' : 'text-slate-500'}`} />
+                  <div>
+                    <p className="text-sm font-medium text-white">Voice Detection</p>
+                    <p className="text-xs text-slate-400">
+                      {config.pushToTalk ? 'Not needed with Push to Talk' : config.micPerSpeaker ? 'Always on with one mic per speaker' : 'Only send speech, not silence or room noise'}
+                    </p>
+                  </div>
+                </div>
+                <button 
+                  onClick={() => setConfig({...config, voiceActivityDetection: !config.voiceActivityDetection})}
+                  disabled={config.pushToTalk}
+                  className={`w-12 h-6 rounded-full transition-colors relative ${config.voiceActivityDetection ? 'bg-green-600' : 'bg-slate-700'}`}
+                >
+                  <div className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform ${config.voiceActivityDetection ? 'left-7' : 'left-1'}`}></div>
+                </button>
+              </div>
+              {usesVad && (
+                <label className="flex items-center gap-3 text-xs text-slate-400">
+                  Sensitivity
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={vadSensitivity}
+                    onChange={(e) => setConfig({ ...config, vadSensitivity: Number(e.target.value) })}
+                    className="flex-1 accent-green-500"
+                  />
+                  <span className="w-16 text-right">{vadSensitivity < 0.35 ? 'Noisy room' : vadSensitivity > 0.65 ? 'Quiet voices' : 'Balanced'}</span>
+                </label>
+              )}
+            </div>
+
+            {/* Echo Guard Option */}
+            <div className="space-y-3 p-4 bg-slate-800/50 rounded-lg border border-slate-700">
+              <div className="flex items-center gap-3">
+                <EarOff className={`w-5 h-5 ${config.echoGuard && config.echoGuard !== 'off' ? 'text-orange-400' : 'text-slate-500'}`} />
+                <div>
+                  <p className="text-sm font-medium text-white">Echo Guard</p>
+                  <p className="text-xs text-slate-400">On speakers, keep the mic from re-sending the interpreter's voice</p>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {ECHO_GUARD_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setConfig({ ...config, echoGuard: option.value })}
+                    className={`p-2 rounded-lg border text-left transition-colors ${(config.echoGuard ?? 'off') === option.value ? 'border-orange-500 bg-orange-500/10' : 'border-slate-700 hover:border-slate-500'}`}
+                  >
+                    <p className="text-sm font-medium text-white">{option.label}</p>
+                    <p className="text-[11px] text-slate-400">{option.description}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Record Audio Option */}
+            <div className="flex items-center justify-between p-4 bg-slate-800/50 rounded-lg border border-slate-700">
+              <div className="flex items-center gap-3">
+                <Disc className={`w-5 h-5 ${config.recordAudio ? 'text-red-400' : 'text-slate-500'}`} />
+                <div>
+                  <p className="text-sm font-medium text-white">Record Audio</p>
+                  <p className="text-xs text-slate-400">Keep both voices to replay from History</p>
+                </div>
+              </div>
+              <button 
+                onClick={() => setConfig({...config, recordAudio: !config.recordAudio})}
+                className={`w-12 h-6 rounded-full transition-colors relative ${config.recordAudio ? 'bg-red-600' : 'bg-slate-700'}`}
+              >
+                <div className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform ${config.recordAudio ? 'left-7' : 'left-1'}`}></div>
+              </button>
+            </div>
+
+            {/* Device Lock */}
+            <div className="space-y-3 p-4 bg-slate-800/50 rounded-lg border border-slate-700">
+              <p className="text-sm font-medium text-white flex items-center gap-2">
+                <ShieldCheck className="w-4 h-4 text-slate-400" />
+                Device lock
+              </p>
+              <DeviceLockSettings autoLockMinutes={autoLockMinutes} onAutoLockChange={handleAutoLockChange} onLock={lockDevice} onPinChanged={handlePinChanged} />
+            </div>
+
             <button
               onClick={handleStartSession}
-              disabled={!userApiKey}
+              disabled={(!userApiKey && !RELAY_URL) || sameLanguage || keyStatus.state === 'checking'}
               className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white font-bold py-4 rounded-xl shadow-lg shadow-blue-500/25 transition-all transform hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
               <Play className="w-5 h-5 fill-current" />
               Start Interpretation
             </button>
           </div>
+          )}
         </div>
       </div>
     );
@@ -256,16 +712,89 @@ const App: React.FC = () => {
               {isMuted ? 'PAUSED' : 'LIVE'}
             </span>
           )}
+          {connectionState === 'reconnecting' && (
+            <span className="px-2 py-0.5 rounded-full text-xs border animate-pulse bg-orange-500/10 text-orange-400 border-orange-500/20">
+              RECONNECTING
+            </span>
+          )}
+          {config.recordAudio && (
+            <span className="px-2 py-0.5 rounded-full text-xs border bg-red-500/10 text-red-400 border-red-500/20 flex items-center gap-1" title="Audio is being recorded">
+              <Disc className="w-3 h-3" />
+              REC
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={openCaptions}
+            className="p-2 hover:bg-slate-800 rounded-full transition-colors text-slate-400 hover:text-blue-400"
+            title="Open captions window"
+          >
+            <Subtitles className="w-5 h-5" />
+          </button>
+          <button
+            onClick={lockDevice}
+            className="p-2 hover:bg-slate-800 rounded-full transition-colors text-slate-400 hover:text-blue-400"
+            title="Lock"
+          >
+            <Lock className="w-5 h-5" />
+          </button>
+          <div className="relative">
+            <button 
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              disabled={exchanges.length === 0}
+              className="p-2 hover:bg-slate-800 rounded-full transition-colors text-slate-400 hover:text-blue-400 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-slate-400"
+              title="Export Transcript"
+            >
+              <Download className="w-5 h-5" />
+            </button>
+            {showExportMenu && (
+              <div className="absolute right-0 mt-2 w-64 p-2 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-50 animate-in fade-in">
+                <p className="px-3 py-1 text-[10px] uppercase tracking-wider text-slate-500 font-semibold">Export transcript</p>
+                <ExportOptions onExport={handleExport} />
+              </div>
+            )}
+          </div>
+          <button 
+            onClick={handleStopSession}
+            className="p-2 hover:bg-slate-800 rounded-full transition-colors text-slate-400 hover:text-red-400"
+            title="End Session"
+          >
+            <Square className="w-5 h-5 fill-current" />
+          </button>
         </div>
-        <button 
-          onClick={handleStopSession}
-          className="p-2 hover:bg-slate-800 rounded-full transition-colors text-slate-400 hover:text-red-400"
-          title="End Session"
-        >
-          <Square className="w-5 h-5 fill-current" />
-        </button>
       </header>
 
+      {/* Save Before Closing Prompt */}
+      {showSavePrompt && (
+        <div className="absolute inset-0 bg-slate-950/90 flex items-center justify-center z-[60] backdrop-blur-sm p-6">
+          <div className="max-w-sm w-full bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-2xl animate-in zoom-in duration-300">
+            <div className="flex items-start justify-between mb-2">
+              <h3 className="text-lg font-bold text-white">Save transcript before closing?</h3>
+              <button
+                onClick={() => setShowSavePrompt(false)}
+                className="p-1 text-slate-500 hover:text-slate-300"
+                title="Back to session"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <p className="text-slate-400 text-sm mb-4">
+              {historyEnabled
+                ? `${exchanges.length} exchange${exchanges.length === 1 ? '' : 's'} will be kept in History on this device. Export a copy to share it.`
+                : `${exchanges.length} exchange${exchanges.length === 1 ? '' : 's'} will be discarded when you close this session.`}
+            </p>
+            <ExportOptions onExport={format => downloadSession(buildSessionTranscript(), format)} />
+            <button
+              onClick={closeSession}
+              className="w-full mt-4 px-4 py-2 rounded-lg bg-slate-800 text-white text-sm hover:bg-red-500/80 transition-colors"
+            >
+              Close session
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="flex-1 flex flex-col md:flex-row p-4 gap-4 overflow-hidden max-w-7xl mx-auto w-full z-10 min-h-0">
         
@@ -290,7 +819,7 @@ const App: React.FC = () => {
                         <>
                            <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
                            <span className="text-blue-400 font-medium">Connecting to Satellite...</span>
-                           <p className="text-slate-500 text-sm text-center max-w-xs">Establishing secure line for {config.languageA} ↔ {config.languageB}</p>
+                           <p className="text-slate-500 text-sm text-center max-w-xs">Establishing secure line for {config.languages.map(languageLabel).join(' ↔ ')}</p>
                         </>
                     )}
                     
@@ -333,6 +862,14 @@ const App: React.FC = () => {
                </div>
             )}
 
+            {/* Reconnecting Banner (non-blocking: mic audio is buffered meanwhile) */}
+            {connectionState === 'reconnecting' && (
+               <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-2 rounded-full bg-orange-500/10 border border-orange-500/30 text-orange-300 text-sm backdrop-blur-sm animate-in fade-in">
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                  <span>Connection lost, reconnecting ({reconnectAttempt}/{maxReconnectAttempts})...</span>
+               </div>
+            )}
+
             {/* Disconnected State Overlay (when in main view but dropped) */}
             {connectionState === 'disconnected' && (
                <div className="absolute inset-0 bg-slate-950/80 flex items-center justify-center z-50 backdrop-blur-sm animate-in fade-in">
@@ -364,20 +901,54 @@ const App: React.FC = () => {
                  <div className="w-24 h-24 rounded-full bg-gradient-to-br from-blue-500 to-blue-700 p-[2px] shadow-lg shadow-blue-500/30 group-hover:scale-105 transition-transform">
                     <div className="w-full h-full rounded-full bg-slate-900 flex items-center justify-center relative overflow-hidden">
                        <img src={`https://picsum.photos/200/200?random=1`} alt="Avatar A" className="opacity-80 object-cover w-full h-full" />
-                       <div className="absolute bottom-0 w-full bg-blue-600/80 text-center text-xs py-1 text-white font-bold backdrop-blur-sm">
-                         {config.languageA}
+                       <div className="absolute bottom-0 w-full bg-blue-600/80 text-center text-xs py-1 px-1 truncate text-white font-bold backdrop-blur-sm">
+                         {languageLabel(config.languages[0])}
                        </div>
                     </div>
                  </div>
+                 {config.pushToTalk && (
+                   <TalkButton
+                     language={config.languages[0]}
+                     shortcuts={talkShortcuts(0)}
+                     isTalking={talker === config.languages[0]}
+                     disabled={!isLive || isMuted}
+                     accentClassName="bg-blue-600"
+                     onPress={pressTalk}
+                     onRelease={releaseTalk}
+                   />
+                 )}
                </div>
 
                {/* Central Visualizer */}
                <div className="flex-1 px-8 flex flex-col items-center gap-2">
                   <div className="w-full">
-                     {/* Pass isActive false if muted to freeze animation */}
-                     <Visualizer isActive={connectionState === 'connected' && !isMuted} volume={volume} color="#60a5fa" />
+                     <Visualizer
+                       input={analyzerNode}
+                       output={outputAnalyzerNode}
+                       isActive={isLive}
+                       inputMuted={isMuted}
+                     />
                   </div>
-                  <p className="text-xs text-slate-500 uppercase tracking-widest font-semibold mt-2">Bi-Directional</p>
+                  <p className="text-xs text-slate-500 uppercase tracking-widest font-semibold mt-2">{isMultiParty ? 'Multi-Party' : 'Bi-Directional'}</p>
+                  {isMultiParty && (
+                    <div className="flex flex-wrap justify-center gap-1">
+                      {config.languages.slice(2).map((lang, i) => config.pushToTalk ? (
+                        <TalkButton
+                          key={lang}
+                          language={lang}
+                          shortcuts={talkShortcuts(i + 2)}
+                          isTalking={talker === lang}
+                          disabled={!isLive || isMuted}
+                          compact
+                          accentClassName="bg-teal-600"
+                          onPress={pressTalk}
+                          onRelease={releaseTalk}
+                        />
+                      ) : (
+                        <span key={lang} className="px-2 py-0.5 rounded-full text-[10px] bg-teal-500/10 text-teal-300 border border-teal-500/20">{languageLabel(lang)}</span>
+                      ))}
+                    </div>
+                  )}
                </div>
 
                {/* Avatar B */}
@@ -385,31 +956,93 @@ const App: React.FC = () => {
                  <div className="w-24 h-24 rounded-full bg-gradient-to-br from-purple-500 to-purple-700 p-[2px] shadow-lg shadow-purple-500/30 group-hover:scale-105 transition-transform">
                     <div className="w-full h-full rounded-full bg-slate-900 flex items-center justify-center relative overflow-hidden">
                        <img src={`https://picsum.photos/200/200?random=2`} alt="Avatar B" className="opacity-80 object-cover w-full h-full" />
-                       <div className="absolute bottom-0 w-full bg-purple-600/80 text-center text-xs py-1 text-white font-bold backdrop-blur-sm">
-                         {config.languageB}
+                       <div className="absolute bottom-0 w-full bg-purple-600/80 text-center text-xs py-1 px-1 truncate text-white font-bold backdrop-blur-sm">
+                         {languageLabel(config.languages[1])}
                         </div>
                     </div>
                  </div>
+                 {config.pushToTalk && (
+                   <TalkButton
+                     language={config.languages[1]}
+                     shortcuts={talkShortcuts(1)}
+                     isTalking={talker === config.languages[1]}
+                     disabled={!isLive || isMuted}
+                     accentClassName="bg-purple-600"
+                     onPress={pressTalk}
+                     onRelease={releaseTalk}
+                   />
+                 )}
                </div>
             </div>
 
             {/* Controls */}
             <div className="flex items-center gap-4">
               <button 
-                onClick={toggleMute}
-                disabled={connectionState !== 'connected'}
+                onClick={() => {
+                  stopTalk();
+                  toggleMute();
+                }}
+                disabled={connectionState !== 'connected' && connectionState !== 'reconnecting'}
                 className={`p-4 rounded-full transition-all shadow-lg ${isMuted ? 'bg-yellow-500 hover:bg-yellow-600 text-slate-900' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'} disabled:opacity-50 disabled:cursor-not-allowed`}
               >
                 {isMuted ? <MicOff className="w-6 h-6" /> : <Mic className="w-6 h-6" />}
               </button>
+
+              {/* Listening Channel */}
+              <label className="flex items-center gap-2 bg-slate-800 border border-slate-700 rounded-full pl-3 pr-1 py-1" title="Which translations you hear">
+                <Headphones className="w-4 h-4 text-slate-400" />
+                <select
+                  value={listenChannel ?? ''}
+                  onChange={(e) => setListenChannel(e.target.value || null)}
+                  className="bg-transparent text-sm text-slate-200 py-2 pr-2 outline-none"
+                >
+                  <option value="">All languages</option>
+                  {config.languages.map(lang => (
+                    <option key={lang} value={lang}>{languageLabel(lang)} only</option>
+                  ))}
+                </select>
+              </label>
+
+              {/* Voice Detection Sensitivity */}
+              {usesVad && (
+                <label className="flex items-center gap-2 bg-slate-800 border border-slate-700 rounded-full px-3 py-3" title="Voice detection sensitivity">
+                  <AudioLines className={`w-4 h-4 transition-colors ${isSpeechDetected ? 'text-green-400' : 'text-slate-400'}`} />
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={vadSensitivity}
+                    onChange={(e) => setConfig({ ...config, vadSensitivity: Number(e.target.value) })}
+                    className="w-24 accent-green-500"
+                  />
+                </label>
+              )}
+
+              {/* Interpreter Speaking */}
+              {isInterpreterSpeaking && (
+                <span
+                  className="flex items-center gap-2 bg-purple-600/20 border border-purple-500/40 text-purple-200 rounded-full px-3 py-3 text-xs font-medium animate-in fade-in"
+                  title={config.echoGuard === 'gate' ? 'The mic is paused until the interpreter finishes' : undefined}
+                >
+                  <Volume2 className="w-4 h-4 animate-pulse" />
+                  {config.echoGuard === 'gate' ? 'Interpreter speaking, mic paused' : 'Interpreter speaking'}
+                </span>
+              )}
             </div>
             <p className="mt-4 text-slate-400 text-sm">
               {connectionState === 'connected' 
-                ? (isMuted ? 'Session Paused (Mic Off)' : 'Listening... Speak naturally')
-                : (connectionState === 'disconnected' ? 'Session paused' : 'Waiting for connection...')}
+                ? (isMuted ? 'Session Paused (Mic Off)'
+                  : !config.pushToTalk ? (isSpeechDetected ? 'Hearing speech...' : 'Listening... Speak naturally')
+                  : talker ? `Sending ${languageLabel(talker)}...` : "Hold a speaker's button while they talk")
+                : connectionState === 'reconnecting'
+                  ? 'Reconnecting... keep talking, your speech will be sent once the line is back'
+                  : (connectionState === 'disconnected' ? 'Session paused' : 'Waiting for connection...')}
             </p>
 
           </div>
+
+          <DiagnosticsPanel metrics={metrics} />
         </div>
 
         {/* Right: Live Transcript */}
@@ -420,29 +1053,20 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0">
-            {logs.length === 0 && (
+            {exchanges.length === 0 && (
               <div className="h-full flex flex-col items-center justify-center text-slate-500 gap-2 opacity-50">
                 <Globe className="w-8 h-8" />
                 <p className="text-sm">Conversation logs will appear here</p>
               </div>
             )}
             
-            {logs.map((log) => (
-              <div key={log.id} className={`flex flex-col ${log.source === 'ai' ? 'items-start' : 'items-end'}`}>
-                <div className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm shadow-sm ${
-                  log.source === 'ai' 
-                    ? 'bg-slate-800 text-blue-200 rounded-tl-none border border-slate-700' 
-                    : 'bg-blue-600 text-white rounded-tr-none'
-                }`}>
-                  {log.text}
-                </div>
-                <span className="text-[10px] text-slate-500 mt-1 px-1">
-                  {log.timestamp.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})} • {log.source === 'ai' ? 'Translator' : 'Original'}
-                </span>
-              </div>
+            {exchanges.map((exchange) => (
+              <ExchangeCard key={exchange.id} exchange={exchange} glossary={sessionGlossary} />
             ))}
             <div ref={logsEndRef} />
           </div>
+
+          <TextMessageBar languages={config.languages} disabled={connectionState !== 'connected'} onSend={sendText} />
         </div>
 
       </main>
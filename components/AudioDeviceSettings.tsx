@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Mic, Speaker, Users } from 'lucide-react';
+import { Language } from '../types';
+import { languageLabel } from '../utils/languageRegistry';
+import { AudioDevice, AudioDevicePreferences, canSelectOutput } from '../utils/audioDevices';
+import { useAudioDevices } from '../hooks/useAudioDevices';
+
+interface AudioDeviceSettingsProps {
+  preferences: AudioDevicePreferences;
+  onChange: (preferences: AudioDevicePreferences) => void;
+  languages: Language[]; // A and B are the first two
+  micPerSpeaker: boolean;
+  onMicPerSpeakerChange: (enabled: boolean) => void;
+}
+
+const selectClassName = "flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none";
+
+const DeviceSelect: React.FC<{ value: string; devices: AudioDevice[]; defaultLabel: string; onChange: (deviceId: string) => void }> = ({ value, devices, defaultLabel, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value)} className={selectClassName}>
+    <option value="">{defaultLabel}</option>
+    {devices.map(device => (
+      <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+    ))}
+    {/* Remembered, but not plugged in right now */}
+    {value && !devices.some(device => device.deviceId === value) && (
+      <option value={value}>Disconnected device</option>
+    )}
+  </select>
+);
+
+// Mic and speaker pickers, and one mic for each of A and B
+export const AudioDeviceSettings: React.FC<AudioDeviceSettingsProps> = ({ preferences, onChange, languages, micPerSpeaker, onMicPerSpeakerChange }) => {
+  const { devices, hasLabels, revealLabels } = useAudioDevices();
+  const [error, setError] = useState<string | null>(null);
+  const [nameA, nameB] = languages.map(languageLabel);
+
+  const update = (changes: Partial<AudioDevicePreferences>) => onChange({ ...preferences, ...changes });
+
+  const handleReveal = () => {
+    setError(null);
+    revealLabels().catch(() => setError("Allow the microphone to see device names."));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Mic className="w-4 h-4 text-slate-400 shrink-0" />
+        <DeviceSelect
+          value={preferences.inputDeviceId}
+          devices={devices.inputs}
+          defaultLabel={micPerSpeaker && !preferences.secondInputDeviceId ? 'Default microphone (stereo)' : 'Default microphone'}
+          onChange={(inputDeviceId) => update({ inputDeviceId })}
+        />
+      </div>
+
+      {canSelectOutput() && (
+        <div className="flex items-center gap-2">
+          <Speaker className="w-4 h-4 text-slate-400 shrink-0" />
+          <DeviceSelect
+            value={preferences.outputDeviceId}
+            devices={devices.outputs}
+            defaultLabel="Default speaker"
+            onChange={(outputDeviceId) => update({ outputDeviceId })}
+          />
+        </div>
+      )}
+
+      {!hasLabels && (
+        <button onClick={handleReveal} className="text-xs text-blue-400 hover:text-blue-300 transition-colors">
+          Show device names
+        </button>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <div className="flex items-center justify-between pt-1">
+        <div className="flex items-center gap-3">
+          <Users className={`w-5 h-5 ${micPerSpeaker ? 'text-blue-400' : 'text-slate-500'}`} />
+          <div>
+            <p className="text-sm font-medium text-white">One Mic per Speaker</p>
+            <p className="text-xs text-slate-400">The mic that hears someone tells which language they speak</p>
+          </div>
+        </div>
+        <button
+          onClick={() => onMicPerSpeakerChange(!micPerSpeaker)}
+          className={`w-12 h-6 rounded-full transition-colors relative ${micPerSpeaker ? 'bg-blue-600' : 'bg-slate-700'}`}
+        >
+          <div className={`absolute top-1 w-4 h-4 rounded-full bg-white transition-transform ${micPerSpeaker ? 'left-7' : 'left-1'}`}></div>
+        </button>
+      </div>
+
+      {micPerSpeaker && (
+        <div className="space-y-1">
+          <label className="text-xs font-semibold uppercase text-slate-500">{nameB}'s microphone</label>
+          <select
+            value={preferences.secondInputDeviceId}
+            onChange={(e) => update({ secondInputDeviceId: e.target.value })}
+            className={`w-full ${selectClassName}`}
+          >
+            <option value="">Right channel of the microphone above</option>
+            {devices.inputs.map(device => (
+              <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+            ))}
+          </select>
+          <p className="text-[10px] text-slate-500">
+            {preferences.secondInputDeviceId
+              ? `${nameA} speaks into the microphone above, ${nameB} into this one.`
+              : `${nameA} is on the left channel of a stereo interface, ${nameB} on the right.`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Maximize, Minimize, Minus, Plus, Settings } from 'lucide-react';
+import { Language, TranscriptExchange } from '../types';
+import { isRtl, languageLabel } from '../utils/languageRegistry';
+import {
+  CAPTIONS_CHANNEL,
+  CAPTION_FONT_SIZES,
+  CaptionSettings,
+  CaptionsMessage,
+  CaptionsTheme,
+  MAX_CAPTION_LINES,
+  latestCaptions,
+  loadCaptionSettings,
+  saveCaptionSettings
+} from '../utils/captions';
+
+// Controls hide once the mouse has been still this long
+const CONTROLS_HIDE_MS = 3000;
+
+const THEMES: Record<CaptionsTheme, { label: string; page: string; text: string; original: string }> = {
+  dark: { label: 'Dark', page: 'bg-black', text: 'text-white', original: 'text-slate-400' },
+  light: { label: 'Light', page: 'bg-white', text: 'text-slate-900', original: 'text-slate-500' },
+  contrast: { label: 'High contrast', page: 'bg-black', text: 'text-yellow-300', original: 'text-white' },
+};
+
+const controlClassName = "px-3 py-1.5 rounded-lg bg-slate-800 text-sm text-white hover:bg-slate-700 transition-colors disabled:opacity-40";
+
+// Full-screen captions for a projector or a tablet facing the other party,
+// fed by the session window over a BroadcastChannel
+export const CaptionsView: React.FC = () => {
+  const [settings, setSettings] = useState<CaptionSettings>(() => loadCaptionSettings());
+  const [languages, setLanguages] = useState<Language[]>([]);
+  const [exchanges, setExchanges] = useState<TranscriptExchange[]>([]);
+  const [status, setStatus] = useState<'waiting' | 'live' | 'locked'>('waiting');
+  const [showControls, setShowControls] = useState(true);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const hideTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    document.title = 'OmniTranslate Captions';
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(CAPTIONS_CHANNEL);
+    channel.onmessage = (e: MessageEvent<CaptionsMessage>) => {
+      const message = e.data;
+      if (message.type !== 'transcript') return;
+      setLanguages(message.languages);
+      setExchanges(message.exchanges);
+      setStatus(message.isLocked ? 'locked' : 'live');
+    };
+    channel.postMessage({ type: 'hello' } as CaptionsMessage);
+    return () => channel.close();
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  const revealControls = () => {
+    setShowControls(true);
+    if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+    hideTimerRef.current = setTimeout(() => setShowControls(false), CONTROLS_HIDE_MS);
+  };
+
+  useEffect(() => {
+    revealControls();
+    return () => {
+      if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+    };
+  }, []);
+
+  const update = (changes: Partial<CaptionSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveCaptionSettings(next);
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else document.documentElement.requestFullscreen().catch(err => console.error("Fullscreen failed", err));
+  };
+
+  const theme = THEMES[settings.theme];
+  const sizeIndex = CAPTION_FONT_SIZES.indexOf(settings.fontSize);
+  const lines = latestCaptions(exchanges, settings);
+  const emptyText = status === 'waiting' ? 'Waiting for the interpretation session...'
+    : status === 'locked' ? 'Captions paused'
+    : 'Translations will appear here';
+
+  return (
+    <div className={`h-screen w-screen overflow-hidden relative ${theme.page}`} onMouseMove={revealControls} onClick={revealControls}>
+      {/* Newest line at the bottom; anything too long is cut off at the top */}
+      <div className="h-full flex flex-col justify-end gap-[0.6em] px-[5vw] py-[5vh]" style={{ fontSize: settings.fontSize }}>
+        {lines.length === 0 ? (
+          <p className={`text-center text-[0.5em] ${theme.original}`}>{emptyText}</p>
+        ) : lines.map((line, i) => (
+          <div key={line.key} className={`transition-opacity ${i < lines.length - 1 ? 'opacity-60' : ''}`}>
+            {settings.showOriginal && line.original?.text && (
+              <p className={`text-[0.45em] leading-snug ${theme.original}`} dir={line.original.language && isRtl(line.original.language) ? 'rtl' : 'auto'}>
+                {line.original.text}
+              </p>
+            )}
+            <p className={`font-semibold leading-tight ${theme.text}`} dir={line.language && isRtl(line.language) ? 'rtl' : 'auto'}>
+              {line.text}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Settings */}
+      <div className={`absolute top-4 right-4 bg-slate-900/90 border border-slate-700 rounded-xl p-3 space-y-3 text-white shadow-xl transition-opacity ${showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+        <div className="flex items-center gap-2">
+          <Settings className="w-4 h-4 text-slate-400" />
+          <span className="text-sm font-semibold flex-1">Captions</span>
+          <button onClick={toggleFullscreen} className={controlClassName} title={isFullscreen ? 'Exit full screen' : 'Full screen'}>
+            {isFullscreen ? <Minimize className="w-4 h-4" /> : <Maximize className="w-4 h-4" />}
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <span className="w-16">Size</span>
+          <button onClick={() => update({ fontSize: CAPTION_FONT_SIZES[sizeIndex - 1] })} disabled={sizeIndex <= 0} className={controlClassName}>
+            <Minus className="w-3 h-3" />
+          </button>
+          <span className="w-10 text-center text-white">{settings.fontSize}</span>
+          <button onClick={() => update({ fontSize: CAPTION_FONT_SIZES[sizeIndex + 1] ?? CAPTION_FONT_SIZES[0] })} disabled={sizeIndex === CAPTION_FONT_SIZES.length - 1} className={controlClassName}>
+            <Plus className="w-3 h-3" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <span className="w-16">Lines</span>
+          <select
+            value={settings.lineCount}
+            onChange={(e) => update({ lineCount: Number(e.target.value) })}
+            className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-white text-sm outline-none"
+          >
+            {Array.from({ length: MAX_CAPTION_LINES }, (_, i) => i + 1).map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <span className="w-16">Theme</span>
+          {(Object.keys(THEMES) as CaptionsTheme[]).map(key => (
+            <button
+              key={key}
+              onClick={() => update({ theme: key })}
+              className={`${controlClassName} ${settings.theme === key ? 'ring-2 ring-blue-500' : ''}`}
+            >
+              {THEMES[key].label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <span className="w-16">Show</span>
+          <select
+            value={settings.language ?? ''}
+            onChange={(e) => update({ language: e.target.value || null })}
+            className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-white text-sm outline-none"
+          >
+            <option value="">All translations</option>
+            {languages.map(language => (
+              <option key={language} value={language}>Into {languageLabel(language)}</option>
+            ))}
+            {settings.language && !languages.includes(settings.language) && (
+              <option value={settings.language}>Into {languageLabel(settings.language)}</option>
+            )}
+          </select>
+        </div>
+
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input type="checkbox" checked={settings.showOriginal} onChange={(e) => update({ showOriginal: e.target.checked })} className="accent-blue-500" />
+          Also show what was said
+        </label>
+      </div>
+    </div>
+  );
+};
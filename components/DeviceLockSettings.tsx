@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { AUTO_LOCK_OPTIONS, AutoLockMinutes, MAX_PIN_LENGTH, validatePin } from '../utils/deviceLock';
+import { changeVaultPin } from '../utils/keyVault';
+
+interface DeviceLockSettingsProps {
+  autoLockMinutes: AutoLockMinutes;
+  onAutoLockChange: (minutes: AutoLockMinutes) => void;
+  onLock: () => void;
+  onPinChanged: (vaultKey: CryptoKey) => Promise<void>; // The key vault, now under the new PIN
+}
+
+const inputClassName = "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm tracking-widest focus:ring-2 focus:ring-blue-500 outline-none transition-all placeholder:text-slate-600 placeholder:tracking-normal";
+
+// Auto-lock period, lock now, and changing the PIN
+export const DeviceLockSettings: React.FC<DeviceLockSettingsProps> = ({ autoLockMinutes, onAutoLockChange, onLock, onPinChanged }) => {
+  const [isChanging, setIsChanging] = useState(false);
+  const [currentPin, setCurrentPin] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const resetForm = () => {
+    setIsChanging(false);
+    setCurrentPin("");
+    setNewPin("");
+    setConfirmPin("");
+  };
+
+  const handleChangePin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isBusy) return;
+    const problem = validatePin(newPin);
+    if (problem) {
+      setMessage({ text: problem, isError: true });
+      return;
+    }
+    if (newPin !== confirmPin) {
+      setMessage({ text: "The new PINs don't match.", isError: true });
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const result = await changeVaultPin(currentPin, newPin);
+      if (result.ok && result.key) {
+        await onPinChanged(result.key);
+        resetForm();
+        setMessage({ text: "PIN changed.", isError: false });
+      } else if (result.lockedUntil) {
+        // Same lockout as the lock screen, which takes over from here
+        onLock();
+      } else {
+        setCurrentPin("");
+        setMessage({ text: "The current PIN is incorrect.", isError: true });
+      }
+    } catch (err: any) {
+      setMessage({ text: err.message || "Could not change the PIN.", isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <label className="text-sm text-slate-300 flex-1">Lock after inactivity</label>
+        <select
+          value={autoLockMinutes}
+          onChange={(e) => onAutoLockChange(Number(e.target.value) as AutoLockMinutes)}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+        >
+          {AUTO_LOCK_OPTIONS.map(minutes => (
+            <option key={minutes} value={minutes}>{minutes} min</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onLock}
+          className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-slate-800 text-sm text-white hover:bg-slate-700 transition-colors"
+        >
+          <Lock className="w-4 h-4" />
+          Lock now
+        </button>
+        <button
+          onClick={() => { setIsChanging(!isChanging); setMessage(null); }}
+          className="flex-1 py-2 rounded-lg bg-slate-800 text-sm text-white hover:bg-slate-700 transition-colors"
+        >
+          {isChanging ? 'Cancel' : 'Change PIN'}
+        </button>
+      </div>
+
+      {isChanging && (
+        <form onSubmit={handleChangePin} className="space-y-2">
+          <input type="password" inputMode="numeric" autoComplete="current-password" maxLength={MAX_PIN_LENGTH} value={currentPin} onChange={(e) => setCurrentPin(e.target.value)} placeholder="Current PIN" className={inputClassName} />
+          <input type="password" inputMode="numeric" autoComplete="new-password" maxLength={MAX_PIN_LENGTH} value={newPin} onChange={(e) => setNewPin(e.target.value)} placeholder="New PIN" className={inputClassName} />
+          <input type="password" inputMode="numeric" autoComplete="new-password" maxLength={MAX_PIN_LENGTH} value={confirmPin} onChange={(e) => setConfirmPin(e.target.value)} placeholder="Confirm new PIN" className={inputClassName} />
+          <button
+            type="submit"
+            disabled={isBusy || !currentPin || !newPin}
+            className="w-full py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm text-white font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save new PIN
+          </button>
+        </form>
+      )}
+      {message && <p className={`text-xs ${message.isError ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Gauge } from 'lucide-react';
+import { SessionMetrics } from '../types';
+import { LatencyStats, formatMs, formatSeconds, latencyStats } from '../utils/metrics';
+
+interface DiagnosticsPanelProps {
+  metrics: SessionMetrics | null;
+}
+
+// Latencies this far behind the speaker make a conversation hard to follow
+const SLOW_FIRST_AUDIO_MS = 2500;
+const LARGE_BACKLOG_SECONDS = 5;
+const RECENT_TURNS = 8;
+
+const Stat: React.FC<{ label: string; value: string; warn?: boolean }> = ({ label, value, warn = false }) => (
+  <div className="bg-slate-950/50 rounded-lg px-3 py-2">
+    <p className="text-[10px] uppercase tracking-wider text-slate-500">{label}</p>
+    <p className={`text-sm font-mono ${warn ? 'text-orange-400' : 'text-slate-200'}`}>{value}</p>
+  </div>
+);
+
+const statsLabel = (stats: LatencyStats | null) =>
+  stats ? `${formatMs(stats.medianMs)} / ${formatMs(stats.p95Ms)}` : '–';
+
+// Collapsible latency, throughput and usage figures for the running session
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ metrics }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (!metrics) return null;
+
+  const firstAudio = latencyStats(metrics.turns, 'firstAudioMs');
+  const playbackEnd = latencyStats(metrics.turns, 'playbackEndMs');
+  const lastTurn = metrics.turns[metrics.turns.length - 1];
+  const isSlow = (firstAudio?.medianMs ?? 0) > SLOW_FIRST_AUDIO_MS;
+  const isBacklogged = metrics.playbackBacklogSeconds > LARGE_BACKLOG_SECONDS;
+
+  return (
+    <div className="bg-slate-900/80 border border-slate-800 rounded-2xl shadow-xl overflow-hidden shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-4 py-3 text-sm text-slate-300 hover:bg-slate-800/50 transition-colors"
+      >
+        <Gauge className={`w-4 h-4 ${isSlow || isBacklogged ? 'text-orange-400' : 'text-slate-400'}`} />
+        <span className="font-semibold">Diagnostics</span>
+        {!isOpen && lastTurn && (
+          <span className="text-xs text-slate-500 font-mono">last turn {formatMs(lastTurn.firstAudioMs)}</span>
+        )}
+        {isOpen ? <ChevronDown className="w-4 h-4 ml-auto" /> : <ChevronRight className="w-4 h-4 ml-auto" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3 animate-in fade-in">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <Stat label="To first audio (med / p95)" value={statsLabel(firstAudio)} warn={isSlow} />
+            <Stat label="To end of playback" value={statsLabel(playbackEnd)} />
+            <Stat label="Playback backlog" value={formatSeconds(metrics.playbackBacklogSeconds)} warn={isBacklogged} />
+            <Stat label="Reconnects" value={String(metrics.reconnects)} warn={metrics.reconnectAttempt > 0} />
+            <Stat label="Audio sent" value={formatSeconds(metrics.audioSecondsSent)} />
+            <Stat label="Audio received" value={formatSeconds(metrics.audioSecondsReceived)} />
+            <Stat label="Prompt tokens" value={metrics.promptTokens.toLocaleString()} />
+            <Stat label="Response tokens" value={metrics.responseTokens.toLocaleString()} />
+          </div>
+
+          {metrics.turns.length > 0 && (
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-slate-500 text-left">
+                  <th className="font-normal py-1">Turn</th>
+                  <th className="font-normal">First audio</th>
+                  <th className="font-normal">Playback end</th>
+                  <th className="font-normal">Audio</th>
+                </tr>
+              </thead>
+              <tbody>
+                {metrics.turns.slice(-RECENT_TURNS).reverse().map((turn, i) => (
+                  <tr key={turn.at.getTime()} className="text-slate-300 border-t border-slate-800">
+                    <td className="py-1">#{metrics.turns.length - i}{turn.interrupted && <span className="text-orange-400"> ✕</span>}</td>
+                    <td className={(turn.firstAudioMs ?? 0) > SLOW_FIRST_AUDIO_MS ? 'text-orange-400' : ''}>{formatMs(turn.firstAudioMs)}</td>
+                    <td>{formatMs(turn.playbackEndMs)}</td>
+                    <td>{formatSeconds(turn.audioSeconds)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
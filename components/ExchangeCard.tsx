@@ -0,0 +1,114 @@
+import React from 'react';
+import { AlertTriangle, HelpCircle, Keyboard, Play, Square } from 'lucide-react';
+import { GlossaryEntry, TranscriptExchange, TranscriptTurn } from '../types';
+import { findGlossaryMisses } from '../utils/glossary';
+import { isRtl, languageLabel } from '../utils/languageRegistry';
+
+export type TurnSide = 'original' | 'translation';
+
+interface ExchangeCardProps {
+  exchange: TranscriptExchange;
+  // Shows play buttons for replaying each side's recorded audio
+  onPlay?: (turn: TranscriptTurn, side: TurnSide) => void;
+  playingTurn?: TranscriptTurn | null; // Turn currently playing
+  glossary?: GlossaryEntry[]; // Flags translations that miss a glossary term
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+interface TurnLineProps {
+  label: string;
+  turn: TranscriptTurn;
+  className: string;
+  onPlay?: () => void;
+  isPlaying?: boolean;
+  settled?: boolean; // The turn is over, so a missing language won't turn up any more
+}
+
+const TurnLine: React.FC<TurnLineProps> = ({ label, turn, className, onPlay, isPlaying, settled }) => (
+  <div>
+    <div className="flex items-center gap-2 text-[10px] uppercase tracking-wider text-slate-500 mb-1">
+      <span className="font-semibold">{label}</span>
+      {turn.language && <span>• {languageLabel(turn.language)}</span>}
+      {settled && !turn.language && (
+        <span
+          className="flex items-center gap-1 text-yellow-500/80"
+          title="The text didn't show which language this was, so its audio wasn't routed to one listener: it played in the centre, or on every channel"
+        >
+          • <HelpCircle className="w-3 h-3" /> Language unclear
+        </span>
+      )}
+      {turn.typed && (
+        <span className="flex items-center gap-1 text-slate-400" title="Typed, not spoken">
+          • <Keyboard className="w-3 h-3" /> Typed
+        </span>
+      )}
+      <span className="ml-auto normal-case tracking-normal">{formatTime(turn.startedAt)}</span>
+      {onPlay && (
+        <button
+          onClick={onPlay}
+          className={`p-1 rounded-full transition-colors ${isPlaying ? 'text-blue-400 bg-blue-500/10' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+          title={isPlaying ? 'Stop' : `Play ${label.toLowerCase()} audio`}
+        >
+          {isPlaying ? <Square className="w-3 h-3 fill-current" /> : <Play className="w-3 h-3 fill-current" />}
+        </button>
+      )}
+    </div>
+    <p className={`text-sm ${className}`} dir={turn.language && isRtl(turn.language) ? 'rtl' : 'auto'}>{turn.text}</p>
+  </div>
+);
+
+// An original utterance and its translations, shown as one card
+export const ExchangeCard: React.FC<ExchangeCardProps> = ({ exchange, onPlay, playingTurn, glossary = [] }) => {
+  const { original, translations, isComplete, wasInterrupted } = exchange;
+
+  return (
+    <div className={`rounded-2xl border bg-slate-800/60 px-4 py-3 space-y-3 shadow-sm ${isComplete ? 'border-slate-700' : 'border-blue-500/40'}`}>
+      {original && (
+        <TurnLine
+          label="Original"
+          turn={original}
+          className="text-white"
+          onPlay={onPlay && (() => onPlay(original, 'original'))}
+          isPlaying={playingTurn === original}
+          settled={isComplete}
+        />
+      )}
+
+      {original && translations.length > 0 && <div className="h-px bg-slate-700"></div>}
+
+      {translations.map((translation, i) => {
+        // Only check finished text, a term may still be on its way
+        const misses = original && isComplete ? findGlossaryMisses(original, translation, glossary) : [];
+        return (
+          <div key={i} className="space-y-1">
+            <TurnLine
+              label="Translation"
+              turn={translation}
+              className="text-blue-200"
+              onPlay={onPlay && (() => onPlay(translation, 'translation'))}
+              isPlaying={playingTurn === translation}
+              settled={isComplete}
+            />
+            {misses.map(miss => (
+              <p key={miss.source} className="flex items-center gap-1 text-[10px] text-yellow-500/80">
+                <AlertTriangle className="w-3 h-3 shrink-0" />
+                {miss.source === miss.expected
+                  ? `"${miss.source}" should not have been translated`
+                  : `Glossary: "${miss.source}" should be "${miss.expected}"`}
+              </p>
+            ))}
+          </div>
+        );
+      })}
+
+      {translations.length === 0 && !isComplete && (
+        <p className="text-xs text-slate-500 italic animate-pulse">Interpreting...</p>
+      )}
+
+      {wasInterrupted && (
+        <p className="text-[10px] uppercase tracking-wider text-yellow-500/80">Interrupted</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import { EXPORT_FORMATS, ExportFormat } from '../utils/export';
+
+interface ExportOptionsProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+// One button per transcript export format
+export const ExportOptions: React.FC<ExportOptionsProps> = ({ onExport, disabled = false }) => (
+  <div className="flex flex-col gap-1">
+    {EXPORT_FORMATS.map(({ format, label }) => (
+      <button
+        key={format}
+        onClick={() => onExport(format)}
+        disabled={disabled}
+        className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left text-slate-200 hover:bg-slate-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <FileText className="w-4 h-4 text-slate-400" />
+        {label}
+      </button>
+    ))}
+  </div>
+);
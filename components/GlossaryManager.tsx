@@ -0,0 +1,223 @@
+import React, { useRef, useState } from 'react';
+import { ArrowLeftRight, BookOpen, Download, Plus, Upload, X } from 'lucide-react';
+import { GlossaryEntry, Language } from '../types';
+import { LanguageSelect } from './LanguageSelect';
+import { downloadBlob } from '../utils/export';
+import { baseLanguage } from '../utils/languageRegistry';
+import {
+  createEntry,
+  entryCoversPair,
+  mergeGlossary,
+  parseGlossaryCsv,
+  parseGlossaryTbx,
+  toGlossaryCsv,
+  toGlossaryTbx
+} from '../utils/glossary';
+
+interface GlossaryManagerProps {
+  entries: GlossaryEntry[];
+  onChange: (entries: GlossaryEntry[]) => void;
+  languages: Language[]; // Session languages, the initial pair shown
+}
+
+const inputClassName = "flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all placeholder:text-slate-600";
+
+// Term pairs per language pair, do-not-translate terms, and CSV/TBX import/export
+export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ entries, onChange, languages }) => {
+  const [pair, setPair] = useState<[Language, Language]>([languages[0], languages[1]]);
+  const [newSource, setNewSource] = useState("");
+  const [newTarget, setNewTarget] = useState("");
+  const [newKeep, setNewKeep] = useState("");
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [languageA, languageB] = pair;
+  const pairEntries = entries.filter(entry => !entry.doNotTranslate && entryCoversPair(entry, languageA, languageB));
+  const keepEntries = entries.filter(entry => entry.doNotTranslate);
+  const otherCount = entries.length - pairEntries.length - keepEntries.length;
+
+  // Show each pair with the selected left-hand language first
+  const oriented = (entry: GlossaryEntry) => baseLanguage(entry.sourceLanguage) === baseLanguage(languageA)
+    ? [entry.source, entry.target]
+    : [entry.target, entry.source];
+
+  const remove = (id: string) => onChange(entries.filter(entry => entry.id !== id));
+
+  const addPair = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSource.trim() || !newTarget.trim()) return;
+    onChange(mergeGlossary(entries, [createEntry({
+      sourceLanguage: languageA,
+      source: newSource.trim(),
+      targetLanguage: languageB,
+      target: newTarget.trim()
+    })]));
+    setNewSource("");
+    setNewTarget("");
+  };
+
+  const addKeep = (e: React.FormEvent) => {
+    e.preventDefault();
+    const term = newKeep.trim();
+    if (!term) return;
+    onChange(mergeGlossary(entries, [createEntry({
+      sourceLanguage: languageA,
+      source: term,
+      targetLanguage: languageA,
+      target: term,
+      doNotTranslate: true
+    })]));
+    setNewKeep("");
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const isTbx = /\.(tbx|xml)$/i.test(file.name) || text.trimStart().startsWith('<');
+      const imported = isTbx ? parseGlossaryTbx(text) : parseGlossaryCsv(text);
+      const merged = mergeGlossary(entries, imported);
+      onChange(merged);
+      const added = merged.length - entries.length;
+      setMessage({ text: `Imported ${added} new term${added === 1 ? '' : 's'} from ${file.name}.`, isError: false });
+    } catch (err: any) {
+      console.error("Glossary import failed", err);
+      setMessage({ text: err.message || "Could not import this file.", isError: true });
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'tbx') => {
+    const blob = format === 'csv'
+      ? new Blob([toGlossaryCsv(entries)], { type: 'text/csv;charset=utf-8' })
+      : new Blob([toGlossaryTbx(entries)], { type: 'application/x-tbx+xml;charset=utf-8' });
+    downloadBlob(blob, `omnitranslate-glossary.${format}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-xs text-slate-400">
+        Terms are added to the interpreter's instructions for sessions in matching languages.
+        Translations that miss an expected term are flagged in the transcript.
+      </p>
+
+      {/* Language Pair */}
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <div className="flex-1">
+            <LanguageSelect value={languageA} onChange={code => setPair([code, languageB])} exclude={[languageB]} />
+          </div>
+          <button
+            onClick={() => setPair([languageB, languageA])}
+            className="p-2 text-slate-400 hover:text-white transition-colors"
+            title="Swap languages"
+          >
+            <ArrowLeftRight className="w-4 h-4" />
+          </button>
+          <div className="flex-1">
+            <LanguageSelect value={languageB} onChange={code => setPair([languageA, code])} exclude={[languageA]} ringClassName="focus:ring-purple-500" />
+          </div>
+        </div>
+
+        <div className="max-h-56 overflow-y-auto space-y-1 pr-1">
+          {pairEntries.length === 0 && (
+            <p className="py-4 text-center text-xs text-slate-500">No terms for this language pair yet</p>
+          )}
+          {pairEntries.map(entry => {
+            const [left, right] = oriented(entry);
+            return (
+              <div key={entry.id} className="flex items-center gap-2 px-3 py-2 bg-slate-800/50 border border-slate-700 rounded-lg text-sm">
+                <span className="flex-1 min-w-0 truncate text-white">{left}</span>
+                <span className="text-slate-500">→</span>
+                <span className="flex-1 min-w-0 truncate text-blue-200">{right}</span>
+                <button onClick={() => remove(entry.id)} className="p-1 text-slate-500 hover:text-red-400 transition-colors" title="Remove term">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <form onSubmit={addPair} className="flex items-center gap-2">
+          <input value={newSource} onChange={(e) => setNewSource(e.target.value)} placeholder="Term" className={inputClassName} />
+          <input value={newTarget} onChange={(e) => setNewTarget(e.target.value)} placeholder="Translation" className={inputClassName} />
+          <button
+            type="submit"
+            disabled={!newSource.trim() || !newTarget.trim()}
+            className="p-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Add term"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </form>
+      </div>
+
+      <div className="h-px bg-slate-800"></div>
+
+      {/* Do Not Translate */}
+      <div className="space-y-3">
+        <label className="text-xs font-semibold uppercase text-slate-500">Never translate</label>
+        <div className="flex flex-wrap gap-2">
+          {keepEntries.length === 0 && <p className="text-xs text-slate-500">Company names, product codes...</p>}
+          {keepEntries.map(entry => (
+            <span key={entry.id} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-slate-800 border border-slate-700 text-sm text-white">
+              {entry.source}
+              <button onClick={() => remove(entry.id)} className="p-0.5 text-slate-500 hover:text-red-400 transition-colors" title="Remove term">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <form onSubmit={addKeep} className="flex items-center gap-2">
+          <input value={newKeep} onChange={(e) => setNewKeep(e.target.value)} placeholder="Keep verbatim, e.g. OmniTranslate" className={inputClassName} />
+          <button
+            type="submit"
+            disabled={!newKeep.trim()}
+            className="p-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Add term"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </form>
+      </div>
+
+      <div className="h-px bg-slate-800"></div>
+
+      {/* Import / Export */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800 text-sm text-white hover:bg-slate-700 transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            Import CSV or TBX
+          </button>
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={entries.length === 0}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800 text-sm text-white hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={() => handleExport('tbx')}
+            disabled={entries.length === 0}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800 text-sm text-white hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            TBX
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,.tbx,.xml,text/csv" onChange={handleImport} className="hidden" />
+        </div>
+        {message && <p className={`text-xs ${message.isError ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>}
+        <p className="text-[10px] text-slate-500 flex items-center gap-1">
+          <BookOpen className="w-3 h-3" />
+          {entries.length} term{entries.length === 1 ? '' : 's'} in total{otherCount > 0 ? `, ${otherCount} for other language pairs` : ''}
+        </p>
+      </div>
+    </div>
+  );
+};
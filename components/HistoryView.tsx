@@ -0,0 +1,286 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, Clock, Disc, FileAudio, History, Search, Trash2 } from 'lucide-react';
+import { ExchangeCard, TurnSide } from './ExchangeCard';
+import { ExportOptions } from './ExportOptions';
+import { TranscriptTurn } from '../types';
+import { clipForTurn } from '../core/SessionRecorder';
+import { downloadRecording, downloadSession } from '../utils/export';
+import { languageLabel } from '../utils/languageRegistry';
+import {
+  RETENTION_OPTIONS,
+  RetentionDays,
+  StoredSession,
+  deleteSession,
+  listSessions,
+  searchSessions
+} from '../utils/sessionHistory';
+
+interface HistoryViewProps {
+  retentionDays: RetentionDays;
+  onRetentionChange: (days: RetentionDays) => void;
+  purgedCount?: number; // Sessions deleted under the current retention period
+}
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  return minutes < 1 ? '< 1 min' : `${minutes} min`;
+};
+
+// First line of the session that matches the query, or its opening line
+const snippetFor = (session: StoredSession, query: string) => {
+  const term = query.trim().toLowerCase().split(/\s+/)[0];
+  const texts = session.exchanges.flatMap(e => [e.original?.text, ...e.translations.map(t => t.text)]).filter(Boolean) as string[];
+  const match = term ? texts.find(text => text.toLowerCase().includes(term)) : undefined;
+  const text = (match ?? texts[0] ?? '').trim();
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ retentionDays, onRetentionChange, purgedCount = 0 }) => {
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [confirmTurnOff, setConfirmTurnOff] = useState(false);
+  const [playing, setPlaying] = useState<TranscriptTurn | null>(null);
+  const playerRef = useRef<{ audio: HTMLAudioElement; url: string } | null>(null);
+
+  const stopPlayback = useCallback(() => {
+    const player = playerRef.current;
+    if (player) {
+      player.audio.pause();
+      URL.revokeObjectURL(player.url);
+      playerRef.current = null;
+    }
+    setPlaying(null);
+  }, []);
+
+  // Stop when leaving a session or the view
+  useEffect(() => stopPlayback, [selectedId, stopPlayback]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+      setError(null);
+    } catch (err: any) {
+      console.error("Failed to load history", err);
+      setError(err.message || "Failed to load session history.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Sessions the retention period removed drop out of the list too
+  useEffect(() => {
+    refresh();
+  }, [refresh, retentionDays, purgedCount]);
+
+  const results = useMemo(() => searchSessions(sessions, query), [sessions, query]);
+  const selected = sessions.find(session => session.id === selectedId) ?? null;
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSession(id);
+      setConfirmDeleteId(null);
+      if (selectedId === id) setSelectedId(null);
+      await refresh();
+    } catch (err: any) {
+      console.error("Failed to delete session", err);
+      setError(err.message || "Failed to delete session.");
+    }
+  };
+
+  // Turning history off deletes what is saved, so check first when there is any
+  const handleRetentionSelect = (days: RetentionDays) => {
+    if (days === 0 && sessions.length > 0) {
+      setConfirmTurnOff(true);
+      return;
+    }
+    setConfirmTurnOff(false);
+    onRetentionChange(days);
+  };
+
+  const handleTurnOff = () => {
+    setConfirmTurnOff(false);
+    setSelectedId(null);
+    onRetentionChange(0);
+  };
+
+  const handlePlay = async (turn: TranscriptTurn, side: TurnSide) => {
+    const wasPlaying = playing === turn;
+    stopPlayback();
+    if (wasPlaying || !selected) return;
+
+    try {
+      const clip = await clipForTurn(selected, turn, side);
+      if (!clip) {
+        setError("No audio was recorded for this part of the conversation.");
+        return;
+      }
+      const url = URL.createObjectURL(clip);
+      const audio = new Audio(url);
+      audio.onended = stopPlayback;
+      playerRef.current = { audio, url };
+      setPlaying(turn);
+      setError(null);
+      await audio.play();
+    } catch (err: any) {
+      console.error("Failed to play recording", err);
+      stopPlayback();
+      setError(err.message || "Failed to play recording.");
+    }
+  };
+
+  // Session review
+  if (selected) {
+    return (
+      <div className="space-y-4">
+        <button
+          onClick={() => setSelectedId(null)}
+          className="flex items-center gap-1 text-sm text-slate-400 hover:text-white transition-colors"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          All sessions
+        </button>
+
+        <div>
+          <h3 className="text-lg font-semibold text-white">{selected.startedAt.toLocaleString()}</h3>
+          <p className="text-xs text-slate-400">
+            {selected.config.languages.map(languageLabel).join(' ↔ ')} • {formatDuration(selected.durationMs)} • {selected.exchanges.length} exchanges
+          </p>
+        </div>
+
+        {error && <p className="text-red-400 text-xs">{error}</p>}
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-2">
+            <p className="px-3 py-1 text-[10px] uppercase tracking-wider text-slate-500 font-semibold">Export</p>
+            <ExportOptions onExport={format => downloadSession(selected, format)} />
+            {selected.recording && (['original', 'translation'] as const).map(track => (
+              <button
+                key={track}
+                onClick={() => downloadRecording(selected, track)}
+                className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left text-slate-200 hover:bg-slate-800 transition-colors"
+              >
+                <FileAudio className="w-4 h-4 text-slate-400" />
+                {track === 'original' ? 'Original audio (.wav)' : 'Interpreter audio (.wav)'}
+              </button>
+            ))}
+          </div>
+          <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-4 flex flex-col justify-between gap-3">
+            <p className="text-xs text-slate-400">Deleting removes this session from this device permanently.</p>
+            {confirmDeleteId === selected.id ? (
+              <div className="flex gap-2">
+                <button onClick={() => setConfirmDeleteId(null)} className="flex-1 px-3 py-2 rounded-lg bg-slate-800 text-sm text-white hover:bg-slate-700 transition-colors">Keep</button>
+                <button onClick={() => handleDelete(selected.id)} className="flex-1 px-3 py-2 rounded-lg bg-red-600 text-sm text-white hover:bg-red-500 transition-colors">Delete</button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setConfirmDeleteId(selected.id)}
+                className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-red-500/40 text-sm text-red-400 hover:bg-red-500/10 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete session
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto space-y-3 pr-1">
+          {selected.exchanges.map(exchange => (
+            <ExchangeCard
+              key={exchange.id}
+              exchange={exchange}
+              onPlay={selected.recording ? handlePlay : undefined}
+              playingTurn={playing}
+              glossary={selected.config.glossary}
+            />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  // Session list
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search originals and translations..."
+          className="w-full bg-slate-950 border border-slate-700 rounded-lg pl-9 pr-4 py-3 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all placeholder:text-slate-600"
+        />
+      </div>
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+
+      <div className="max-h-[50vh] overflow-y-auto space-y-2 pr-1">
+        {!isLoading && results.length === 0 && (
+          <div className="py-10 flex flex-col items-center justify-center text-slate-500 gap-2 opacity-70">
+            <History className="w-8 h-8" />
+            <p className="text-sm">{query ? 'No sessions match your search' : 'Past sessions will appear here'}</p>
+          </div>
+        )}
+
+        {results.map(session => (
+          <button
+            key={session.id}
+            onClick={() => setSelectedId(session.id)}
+            className="w-full text-left p-4 bg-slate-800/50 hover:bg-slate-800 border border-slate-700 rounded-lg transition-colors"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium text-white">{session.startedAt.toLocaleString()}</span>
+              <span className="text-xs text-slate-500 flex items-center gap-1">
+                <Clock className="w-3 h-3" />
+                {formatDuration(session.durationMs)}
+              </span>
+            </div>
+            <p className="text-xs text-slate-400 mt-1 flex items-center gap-1">
+              {session.config.languages.map(languageLabel).join(' ↔ ')} • {session.exchanges.length} exchanges
+              {session.recording && <Disc className="w-3 h-3 text-red-400 ml-1" aria-label="Has audio" />}
+            </p>
+            <p className="text-xs text-slate-500 mt-2 truncate">{snippetFor(session, query)}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="h-px bg-slate-800"></div>
+
+      {/* Retention */}
+      <div className="space-y-2">
+        <label className="text-xs font-semibold uppercase text-slate-500">Keep history</label>
+        <select
+          value={retentionDays === null ? 'forever' : String(retentionDays)}
+          onChange={(e) => handleRetentionSelect(e.target.value === 'forever' ? null : Number(e.target.value))}
+          className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+        >
+          {RETENTION_OPTIONS.map(option => (
+            <option key={option.label} value={option.value === null ? 'forever' : String(option.value)}>{option.label}</option>
+          ))}
+        </select>
+        {confirmTurnOff ? (
+          <div className="space-y-2">
+            <p className="text-xs text-red-300">
+              Turning history off deletes {sessions.length === 1 ? 'the saved session' : `all ${sessions.length} saved sessions`}.
+            </p>
+            <div className="flex gap-2">
+              <button onClick={() => setConfirmTurnOff(false)} className="flex-1 px-3 py-2 rounded-lg bg-slate-800 text-sm text-white hover:bg-slate-700 transition-colors">Keep history</button>
+              <button onClick={handleTurnOff} className="flex-1 px-3 py-2 rounded-lg bg-red-600 text-sm text-white hover:bg-red-500 transition-colors">Delete and turn off</button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-[10px] text-slate-500">
+            {retentionDays === 0
+              ? "Sessions aren't saved, and any saved before are deleted."
+              : 'Sessions are stored only in this browser. Older sessions are deleted automatically.'}
+            {purgedCount > 0 && ` ${purgedCount} session${purgedCount === 1 ? ' was' : 's were'} deleted.`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, Search } from 'lucide-react';
+import { Language } from '../types';
+import { getLanguage, languageLabel, searchLanguages } from '../utils/languageRegistry';
+
+interface LanguageSelectProps {
+  value: Language;
+  onChange: (code: Language) => void;
+  exclude?: Language[]; // Shown but not selectable, e.g. languages other participants use
+  ringClassName?: string; // Focus ring colour
+}
+
+// Dropdown over the language registry with type-to-filter
+export const LanguageSelect: React.FC<LanguageSelectProps> = ({
+  value,
+  onChange,
+  exclude = [],
+  ringClassName = 'focus:ring-blue-500'
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [highlight, setHighlight] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const options = useMemo(() => searchLanguages(query), [query]);
+  const selectable = options.filter(info => !exclude.includes(info.code));
+  const current = getLanguage(value);
+
+  // Close when clicking elsewhere
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  useEffect(() => setHighlight(0), [query]);
+
+  const choose = (code: Language) => {
+    onChange(code);
+    setIsOpen(false);
+    setQuery("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlight(i => Math.min(i + 1, selectable.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlight(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (selectable[highlight]) choose(selectable[highlight].code);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={`w-full flex items-center justify-between bg-slate-800 border border-slate-700 rounded-lg px-4 py-3 text-white text-left focus:ring-2 ${ringClassName} outline-none transition-all`}
+      >
+        <span>
+          {languageLabel(value)}
+          {current && current.nativeName !== current.name && (
+            <span className="ml-2 text-slate-400 text-sm">{current.nativeName}</span>
+          )}
+        </span>
+        <ChevronDown className="w-4 h-4 text-slate-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 mt-1 bg-slate-900 border border-slate-700 rounded-lg shadow-2xl z-50">
+          <div className="relative p-2 border-b border-slate-800">
+            <Search className="w-4 h-4 text-slate-500 absolute left-5 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Search languages..."
+              className="w-full bg-slate-950 border border-slate-700 rounded-md pl-9 pr-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-blue-500 placeholder:text-slate-600"
+              autoFocus
+            />
+          </div>
+          <ul className="max-h-60 overflow-y-auto py-1">
+            {options.length === 0 && (
+              <li className="px-4 py-2 text-sm text-slate-500">No matching languages</li>
+            )}
+            {options.map(info => {
+              const isExcluded = exclude.includes(info.code);
+              const isHighlighted = !isExcluded && selectable[highlight]?.code === info.code;
+              return (
+                <li key={info.code}>
+                  <button
+                    type="button"
+                    onClick={() => choose(info.code)}
+                    disabled={isExcluded}
+                    className={`w-full flex items-center justify-between px-4 py-2 text-sm text-left transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${isHighlighted ? 'bg-slate-800' : 'hover:bg-slate-800'} ${info.code === value ? 'text-blue-300' : 'text-slate-200'}`}
+                    title={isExcluded ? 'Already used by another participant' : undefined}
+                  >
+                    <span>{languageLabel(info.code)}</span>
+                    <span className="text-slate-500" dir={info.rtl ? 'rtl' : 'ltr'}>{info.nativeName}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, Lock, ShieldCheck } from 'lucide-react';
+import { MAX_PIN_LENGTH, lockedUntil, setPin, validatePin, verifyPin } from '../utils/deviceLock';
+
+interface LockScreenProps {
+  mode: 'setup' | 'unlock'; // 'setup' asks for a new PIN on first run
+  onUnlocked: (pin: string) => Promise<void> | void; // Gets the PIN to open the key vault
+}
+
+const formatWait = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s` : `${seconds}s`;
+};
+
+const pinInputClassName = (hasError: boolean) =>
+  `w-full bg-slate-950 border ${hasError ? 'border-red-500' : 'border-slate-700'} rounded-lg px-4 py-3 text-center text-2xl tracking-widest text-white focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all disabled:opacity-50`;
+
+// Full-screen PIN entry, or first-run PIN setup
+export const LockScreen: React.FC<LockScreenProps> = ({ mode, onUnlocked }) => {
+  const [pin, setPinInput] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [blockedUntil, setBlockedUntil] = useState<number | null>(() => mode === 'unlock' ? lockedUntil() : null);
+  const [now, setNow] = useState(Date.now());
+
+  // Count down a lockout
+  useEffect(() => {
+    if (!blockedUntil) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= blockedUntil) setBlockedUntil(null);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [blockedUntil]);
+
+  const isBlocked = blockedUntil !== null && blockedUntil > now;
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pin || isBusy || isBlocked) return;
+    setIsBusy(true);
+    try {
+      const result = await verifyPin(pin);
+      if (result.ok) {
+        await onUnlocked(pin);
+        return;
+      }
+      setError("Incorrect PIN code");
+      setNow(Date.now());
+      setBlockedUntil(result.lockedUntil);
+    } catch (err: any) {
+      setError(err.message || "Could not check the PIN.");
+    } finally {
+      setIsBusy(false);
+      setPinInput("");
+    }
+  };
+
+  const handleSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isBusy) return;
+    const problem = validatePin(pin);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError("The PINs don't match.");
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await setPin(pin);
+      await onUnlocked(pin);
+    } catch (err: any) {
+      setError(err.message || "Could not save the PIN.");
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 bg-slate-950 text-white relative overflow-hidden">
+      <div className="absolute top-0 left-0 w-96 h-96 bg-blue-500/5 rounded-full blur-3xl -translate-x-1/2 -translate-y-1/2"></div>
+
+      <div className="max-w-xs w-full bg-slate-900/80 backdrop-blur-xl border border-slate-800 rounded-2xl p-8 shadow-2xl z-10 flex flex-col items-center">
+        <div className="p-4 bg-slate-800 rounded-full mb-6">
+          {mode === 'setup' ? <ShieldCheck className="w-8 h-8 text-blue-500" /> : <Lock className="w-8 h-8 text-blue-500" />}
+        </div>
+        <h2 className="text-xl font-bold mb-2">OmniTranslate Safe</h2>
+        <p className="text-slate-400 text-sm mb-6 text-center">
+          {mode === 'setup' ? 'Choose a PIN to lock this device' : 'Enter access PIN to continue'}
+        </p>
+
+        <form onSubmit={mode === 'setup' ? handleSetup : handleUnlock} className="w-full space-y-4">
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete={mode === 'setup' ? 'new-password' : 'current-password'}
+            maxLength={MAX_PIN_LENGTH}
+            value={pin}
+            onChange={(e) => { setPinInput(e.target.value); setError(null); }}
+            disabled={isBlocked || isBusy}
+            className={pinInputClassName(!!error)}
+            placeholder="••••"
+            autoFocus
+          />
+          {mode === 'setup' && (
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              maxLength={MAX_PIN_LENGTH}
+              value={confirmPin}
+              onChange={(e) => { setConfirmPin(e.target.value); setError(null); }}
+              disabled={isBusy}
+              className={pinInputClassName(!!error)}
+              placeholder="Confirm"
+            />
+          )}
+          {error && !isBlocked && <p className="text-red-400 text-xs text-center">{error}</p>}
+          {isBlocked && (
+            <p className="text-red-400 text-xs text-center">Too many attempts. Try again in {formatWait(blockedUntil! - now)}.</p>
+          )}
+
+          <button
+            type="submit"
+            disabled={isBlocked || isBusy}
+            className="w-full bg-blue-600 hover:bg-blue-500 text-white font-medium py-3 rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {mode === 'setup' ? 'Set PIN' : 'Unlock'} <ArrowRight className="w-4 h-4" />
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Mic } from 'lucide-react';
+import { Language } from '../types';
+import { languageLabel } from '../utils/languageRegistry';
+
+interface TalkButtonProps {
+  language: Language;
+  shortcuts: string[];
+  isTalking: boolean;
+  disabled?: boolean;
+  compact?: boolean; // For participants beyond A and B
+  accentClassName: string; // Background while talking, e.g. 'bg-blue-600'
+  onPress: (language: Language) => void;
+  onRelease: (language: Language) => void;
+}
+
+// Push-to-talk button for one speaker: hold while talking, or tap to keep it on
+export const TalkButton: React.FC<TalkButtonProps> = ({
+  language,
+  shortcuts,
+  isTalking,
+  disabled = false,
+  compact = false,
+  accentClassName,
+  onPress,
+  onRelease
+}) => (
+  <button
+    // Pointer capture keeps the release on this button even if the finger slides off
+    onPointerDown={(e) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      onPress(language);
+    }}
+    onPointerUp={() => onRelease(language)}
+    onPointerCancel={() => onRelease(language)}
+    onContextMenu={(e) => e.preventDefault()}
+    disabled={disabled}
+    title={`Hold to talk in ${languageLabel(language)}, tap to keep talking (${shortcuts.join(' / ')})`}
+    className={`select-none touch-none flex items-center justify-center gap-2 rounded-full font-semibold transition-all shadow-lg disabled:opacity-50 disabled:cursor-not-allowed ${
+      compact ? 'px-3 py-1.5 text-xs' : 'px-5 py-3 text-sm'
+    } ${isTalking ? `${accentClassName} text-white scale-105 ring-4 ring-white/20` : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+  >
+    <Mic className={`${compact ? 'w-3 h-3' : 'w-4 h-4'} ${isTalking ? 'animate-pulse' : ''}`} />
+    {compact ? languageLabel(language) : isTalking ? 'Talking...' : 'Hold to talk'}
+    <kbd className="px-1.5 rounded bg-slate-950/40 text-[10px] font-mono text-slate-400">{shortcuts[0]}</kbd>
+  </button>
+);
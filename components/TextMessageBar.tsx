@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Send } from 'lucide-react';
+import { Language } from '../types';
+import { isRtl, languageLabel } from '../utils/languageRegistry';
+
+interface TextMessageBarProps {
+  languages: Language[];
+  disabled?: boolean; // While there's no connection to send on
+  // Returns false if the message couldn't be sent
+  onSend: (text: string, source: Language) => boolean;
+}
+
+const SIDE_CLASSNAMES = ['bg-blue-600', 'bg-purple-600', 'bg-teal-600'];
+
+// Type a message for the interpreter to translate and speak, for names,
+// numbers and addresses, or rooms too loud to talk in
+export const TextMessageBar: React.FC<TextMessageBarProps> = ({ languages, disabled = false, onSend }) => {
+  const [text, setText] = useState("");
+  const [source, setSource] = useState<Language>(languages[0]);
+  const [error, setError] = useState<string | null>(null);
+  // The languages may have changed since the side was picked
+  const side = languages.includes(source) ? source : languages[0];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    if (onSend(text, side)) {
+      setText("");
+      setError(null);
+    } else {
+      setError("Not connected, the message wasn't sent.");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-3 border-t border-slate-800 bg-slate-900/50 space-y-2 shrink-0">
+      <div className="flex items-center gap-1">
+        <span className="text-[10px] uppercase tracking-wider text-slate-500 mr-1">Typed in</span>
+        {languages.map((language, i) => (
+          <button
+            key={language}
+            type="button"
+            onClick={() => setSource(language)}
+            className={`px-2 py-0.5 rounded-full text-[11px] font-medium transition-colors ${
+              side === language ? `${SIDE_CLASSNAMES[Math.min(i, SIDE_CLASSNAMES.length - 1)]} text-white` : 'bg-slate-800 text-slate-400 hover:text-white'
+            }`}
+          >
+            {languageLabel(language)}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={disabled}
+          placeholder={`Type a message in ${languageLabel(side)}...`}
+          dir={isRtl(side) ? 'rtl' : 'auto'}
+          className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all placeholder:text-slate-600 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !text.trim()}
+          title="Translate and speak"
+          className="p-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </form>
+  );
+};
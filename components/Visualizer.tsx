@@ -1,73 +1,133 @@
 import React, { useEffect, useRef } from 'react';
 
 interface VisualizerProps {
+  input: AnalyserNode | null; // Mic
+  output?: AnalyserNode | null; // Interpreter playback
   isActive: boolean;
-  volume: number; // 0 to 1
-  color?: string;
+  inputMuted?: boolean;
+  inputColor?: string;
+  outputColor?: string;
 }
 
-export const Visualizer: React.FC<VisualizerProps> = ({ isActive, volume, color = '#3b82f6' }) => {
+// Spectrum shown, up to the top of the speech band
+const MAX_FREQUENCY_HZ = 8000;
+const BAR_COUNT = 48;
+// Level (RMS of the waveform) above which a side counts as audible
+const ACTIVE_LEVEL = 0.015;
+const IDLE_COLOR = '#334155';
+
+interface Channel {
+  analyser: AnalyserNode;
+  frequencies: Uint8Array<ArrayBuffer>;
+  waveform: Float32Array<ArrayBuffer>;
+}
+
+const channelFor = (analyser: AnalyserNode | null | undefined, previous: Channel | null): Channel | null => {
+  if (!analyser) return null;
+  if (previous?.analyser === analyser) return previous;
+  return {
+    analyser,
+    frequencies: new Uint8Array(analyser.frequencyBinCount),
+    waveform: new Float32Array(analyser.fftSize)
+  };
+};
+
+// Fills `bars` with 0-1 heights from the channel's spectrum; returns its level
+function readChannel(channel: Channel, bars: Float32Array): number {
+  const { analyser, frequencies, waveform } = channel;
+  analyser.getByteFrequencyData(frequencies);
+  analyser.getFloatTimeDomainData(waveform);
+
+  const nyquist = analyser.context.sampleRate / 2;
+  const usedBins = Math.max(1, Math.min(frequencies.length, Math.round(frequencies.length * MAX_FREQUENCY_HZ / nyquist)));
+  for (let bar = 0; bar < bars.length; bar++) {
+    const from = Math.floor(bar * usedBins / bars.length);
+    const to = Math.max(from + 1, Math.floor((bar + 1) * usedBins / bars.length));
+    let peak = 0;
+    for (let bin = from; bin < to; bin++) peak = Math.max(peak, frequencies[bin]);
+    bars[bar] = peak / 255;
+  }
+
+  let sumSquares = 0;
+  for (let i = 0; i < waveform.length; i++) sumSquares += waveform[i] * waveform[i];
+  return Math.sqrt(sumSquares / waveform.length);
+}
+
+// Mirrored live spectrum: the mic above the centre line, the interpreter
+// below it, each labelled while it is audible. Runs one animation loop for
+// its whole lifetime and reads the latest props on every frame.
+export const Visualizer: React.FC<VisualizerProps> = (props) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const propsRef = useRef(props);
+  propsRef.current = props;
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
 
     let animationId: number;
-    let offset = 0;
+    let input: Channel | null = null;
+    let output: Channel | null = null;
+    const inputBars = new Float32Array(BAR_COUNT);
+    const outputBars = new Float32Array(BAR_COUNT);
 
-    const draw = () => {
-      if (!isActive) {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        // Draw a flat line
-        ctx.beginPath();
-        ctx.moveTo(0, canvas.height / 2);
-        ctx.lineTo(canvas.width, canvas.height / 2);
-        ctx.strokeStyle = '#334155';
-        ctx.stroke();
-        return;
+    const drawBars = (bars: Float32Array, direction: 1 | -1, color: string, width: number, centerY: number) => {
+      const slot = width / bars.length;
+      ctx.fillStyle = color;
+      for (let i = 0; i < bars.length; i++) {
+        const height = Math.max(1, bars[i] * (centerY - 14));
+        ctx.fillRect(i * slot + 1, direction === 1 ? centerY - height : centerY, Math.max(1, slot - 2), height);
       }
+    };
 
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      const width = canvas.width;
-      const height = canvas.height;
-      const centerY = height / 2;
-
-      ctx.beginPath();
-      ctx.lineWidth = 2;
-      ctx.strokeStyle = color;
-
-      // Draw sine wave modulated by volume
-      for (let x = 0; x < width; x++) {
-        // Create a wave that moves
-        const wave = Math.sin((x * 0.05) + offset) * (height / 2.5) * volume;
-        const y = centerY + wave;
-        
-        if (x === 0) ctx.moveTo(x, y);
-        else ctx.lineTo(x, y);
-      }
-      
-      ctx.stroke();
-      
-      offset += 0.2;
-      animationId = requestAnimationFrame(draw);
+    const label = (text: string, y: number, color: string) => {
+      ctx.fillStyle = color;
+      ctx.fillText(text, 4, y);
     };
 
-    draw();
+    const draw = () => {
+      animationId = requestAnimationFrame(draw);
+      const { input: inputNode, output: outputNode, isActive, inputMuted, inputColor = '#60a5fa', outputColor = '#c084fc' } = propsRef.current;
+
+      // Match the drawing buffer to the displayed size
+      const scale = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * scale);
+      const height = Math.round(canvas.clientHeight * scale);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      ctx.setTransform(scale, 0, 0, scale, 0, 0);
+      const cssWidth = canvas.clientWidth;
+      const centerY = canvas.clientHeight / 2;
+      ctx.clearRect(0, 0, cssWidth, canvas.clientHeight);
+      ctx.font = '10px sans-serif';
+
+      input = channelFor(isActive && !inputMuted ? inputNode : null, input);
+      output = channelFor(isActive ? outputNode : null, output);
+      const inputLevel = input ? readChannel(input, inputBars) : 0;
+      const outputLevel = output ? readChannel(output, outputBars) : 0;
+      if (!input) inputBars.fill(0);
+      if (!output) outputBars.fill(0);
+
+      drawBars(inputBars, 1, inputLevel > ACTIVE_LEVEL ? inputColor : IDLE_COLOR, cssWidth, centerY);
+      drawBars(outputBars, -1, outputLevel > ACTIVE_LEVEL ? outputColor : IDLE_COLOR, cssWidth, centerY);
 
-    return () => {
-      cancelAnimationFrame(animationId);
+      ctx.fillStyle = IDLE_COLOR;
+      ctx.fillRect(0, centerY, cssWidth, 1);
+      if (inputLevel > ACTIVE_LEVEL) label('Speaker', 10, inputColor);
+      if (outputLevel > ACTIVE_LEVEL) label('Interpreter', canvas.clientHeight - 3, outputColor);
     };
-  }, [isActive, volume, color]);
+
+    draw();
+    return () => cancelAnimationFrame(animationId);
+  }, []);
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={300} 
-      height={100} 
+    <canvas
+      ref={canvasRef}
       className="w-full h-24 rounded-lg bg-slate-900/50 backdrop-blur-sm"
     />
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Square, Volume2 } from 'lucide-react';
+import { Language } from '../types';
+import { VOICES } from '../utils/voices';
+
+interface VoiceSettingsProps {
+  languages: Language[];
+  voice: string;
+  splitAudio: boolean; // Whether each side already hears its translations in its own ear
+  onChange: (voice: string) => void;
+  onPreview: (voice: string, language: Language) => Promise<void>;
+  onStopPreview: () => void;
+}
+
+// Voice picker with a preview button. A Live connection speaks with a single
+// voice, so translations in both directions use the same one.
+export const VoiceSettings: React.FC<VoiceSettingsProps> = ({ languages, voice, splitAudio, onChange, onPreview, onStopPreview }) => {
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Don't leave a preview playing after leaving the settings
+  useEffect(() => onStopPreview, [onStopPreview]);
+
+  const togglePreview = () => {
+    if (isPreviewing) {
+      onStopPreview();
+      return;
+    }
+    setError(null);
+    setIsPreviewing(true);
+    onPreview(voice, languages[0])
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setIsPreviewing(false));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={voice}
+          onChange={(e) => onChange(e.target.value)}
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+        >
+          {VOICES.map(option => (
+            <option key={option.name} value={option.name}>{option.name} – {option.style}</option>
+          ))}
+        </select>
+        <button
+          onClick={togglePreview}
+          className={`p-2 rounded-lg transition-colors ${isPreviewing ? 'bg-blue-500/20 text-blue-400' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+          title={isPreviewing ? 'Stop preview' : 'Preview voice'}
+        >
+          {isPreviewing
+            ? <span className="relative block w-4 h-4"><Loader2 className="absolute inset-0 w-4 h-4 animate-spin opacity-40" /><Square className="absolute inset-1 w-2 h-2 fill-current" /></span>
+            : <Volume2 className="w-4 h-4" />}
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-500">
+        Speaks every translation, in both directions: the interpreter can only use one voice at a time.
+        {!splitAudio && ' Turn on Split Audio Channels to hear each side in its own ear.'}
+      </p>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WAV_HEADER_BYTES } from '../utils/wav';
+import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE } from './audioIO';
+import { SessionRecorder } from './SessionRecorder';
+
+const START = new Date('2026-03-01T10:00:00Z');
+
+// `ms` of a steady tone, as PCM16 bytes
+const chunk = (ms: number, rate: number = OUTPUT_SAMPLE_RATE) => {
+  const samples = new Int16Array(Math.round(ms * rate / 1000));
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.round(8000 * Math.sin(2 * Math.PI * 300 * i / rate));
+  return new Uint8Array(samples.buffer);
+};
+
+const trackMs = (wav: Blob, rate: number) => (wav.size - WAV_HEADER_BYTES) / 2 / rate * 1000;
+
+describe('SessionRecorder', () => {
+  let recorder: SessionRecorder;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+    recorder = new SessionRecorder();
+    recorder.start(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('places translated audio where the player scheduled it', () => {
+    vi.advanceTimersByTime(1000);
+    // Arrives now, plays after 500ms of audio already queued
+    recorder.addTranslation(chunk(1000), 'it-IT', { at: START.getTime() + 1500, rate: 1 });
+    recorder.addTranslation(chunk(1000), 'it-IT', { at: START.getTime() + 2500, rate: 1 });
+    const { translation, translationSpans } = recorder.finish();
+    expect(translationSpans).toEqual([{ receivedMs: 1000, startMs: 1500, endMs: 3500, language: 'it-IT' }]);
+    expect(trackMs(translation, OUTPUT_SAMPLE_RATE)).toBeCloseTo(3500, 0);
+  });
+
+  it('keeps to the wall clock while playback catches up', () => {
+    // Ten seconds played at 1.1x take about 9.1s, chunk after chunk
+    let at = START.getTime();
+    for (let i = 0; i < 10; i++) {
+      recorder.addTranslation(chunk(1000), 'it-IT', { at, rate: 1.1 });
+      at += 1000 / 1.1;
+    }
+    vi.advanceTimersByTime(20000);
+    recorder.addTranslation(chunk(1000), 'en-US', { at: START.getTime() + 20000, rate: 1 });
+
+    const { translation, translationSpans } = recorder.finish();
+    expect(translationSpans).toHaveLength(2);
+    expect(translationSpans[0].endMs).toBeCloseTo(10000 / 1.1, 0);
+    // The next turn lands when it was heard, not after a track that ran long
+    expect(translationSpans[1]).toMatchObject({ startMs: 20000, endMs: 21000, language: 'en-US' });
+    expect(trackMs(translation, OUTPUT_SAMPLE_RATE)).toBeCloseTo(21000, 0);
+  });
+
+  it('drops what was still queued when playback is interrupted', () => {
+    recorder.addTranslation(chunk(3000), 'it-IT', { at: START.getTime(), rate: 1 });
+    vi.advanceTimersByTime(1200);
+    recorder.interrupt();
+    const { translation, translationSpans } = recorder.finish();
+    expect(translationSpans).toMatchObject([{ startMs: 0, endMs: 1200 }]);
+    expect(trackMs(translation, OUTPUT_SAMPLE_RATE)).toBeCloseTo(1200, 0);
+  });
+
+  it('lays mic frames out on the wall clock, padding long gaps', () => {
+    vi.advanceTimersByTime(40);
+    recorder.addOriginal(chunk(40, INPUT_SAMPLE_RATE).buffer);
+    vi.advanceTimersByTime(1000);
+    recorder.addOriginal(chunk(40, INPUT_SAMPLE_RATE).buffer);
+    expect(trackMs(recorder.finish().original, INPUT_SAMPLE_RATE)).toBeCloseTo(1040, 0);
+  });
+});
@@ -0,0 +1,177 @@
+import { Language, SessionRecording, SessionTranscript, TranscriptTurn } from '../types';
+import { resample } from '../utils/audio';
+import { WAV_HEADER_BYTES, encodeWav, sliceWav } from '../utils/wav';
+import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, ScheduledPlayback } from './audioIO';
+
+// Gaps shorter than this are capture jitter, not pauses worth padding
+const INPUT_GAP_TOLERANCE_MS = 200;
+// Transcription trails speech, so original clips start a little early
+const ORIGINAL_LEAD_MS = 1500;
+const ORIGINAL_TAIL_MS = 500;
+
+type TranslationSpan = SessionRecording['translationSpans'][number];
+
+// One mono PCM16 track laid out on the session's wall clock. Chunks are kept
+// as received; gaps (mute, outages) are filled with silence when written.
+class PcmTrack {
+  private chunks: ArrayBuffer[] = [];
+  private samples = 0;
+
+  constructor(readonly sampleRate: number) {}
+
+  get endMs(): number {
+    return this.samples / this.sampleRate * 1000;
+  }
+
+  // Append a chunk at atMs, or straight after the previous one if that is later.
+  // Returns where it landed.
+  write(pcm: ArrayBuffer, atMs: number): number {
+    const gap = Math.round((atMs - this.endMs) * this.sampleRate / 1000);
+    if (gap > 0) {
+      this.chunks.push(new ArrayBuffer(gap * 2));
+      this.samples += gap;
+    }
+    const startMs = this.endMs;
+    this.chunks.push(pcm);
+    this.samples += pcm.byteLength / 2;
+    return startMs;
+  }
+
+  // Drop everything after atMs
+  truncate(atMs: number): void {
+    const keep = Math.max(0, Math.round(atMs * this.sampleRate / 1000));
+    while (this.samples > keep && this.chunks.length > 0) {
+      const last = this.chunks.pop()!;
+      const lastSamples = last.byteLength / 2;
+      this.samples -= lastSamples;
+      if (this.samples < keep) {
+        this.chunks.push(last.slice(0, (keep - this.samples) * 2));
+        this.samples = keep;
+      }
+    }
+  }
+
+  toWav(): Blob {
+    return encodeWav(this.chunks, this.sampleRate);
+  }
+}
+
+// Records the mic and the interpreter's speech for a session so turns can be
+// replayed later. Both tracks start at the session's start time, so transcript
+// timestamps map straight onto them.
+export class SessionRecorder {
+  private startMs = Date.now();
+  private original = new PcmTrack(INPUT_SAMPLE_RATE);
+  private translation = new PcmTrack(OUTPUT_SAMPLE_RATE);
+  private translationSpans: TranslationSpan[] = [];
+  private currentSpan: TranslationSpan | null = null;
+
+  // Begin a new recording aligned to the session's start time
+  start(startedAt: Date): void {
+    this.clear();
+    this.startMs = startedAt.getTime();
+  }
+
+  // Release the recorded audio
+  clear(): void {
+    this.original = new PcmTrack(INPUT_SAMPLE_RATE);
+    this.translation = new PcmTrack(OUTPUT_SAMPLE_RATE);
+    this.translationSpans = [];
+    this.currentSpan = null;
+  }
+
+  // Mic PCM16 at INPUT_SAMPLE_RATE, called as each frame is captured
+  addOriginal(pcm: ArrayBuffer): void {
+    const frameMs = pcm.byteLength / 2 / INPUT_SAMPLE_RATE * 1000;
+    const capturedAt = this.now() - frameMs;
+    const atMs = capturedAt - this.original.endMs > INPUT_GAP_TOLERANCE_MS ? capturedAt : this.original.endMs;
+    this.original.write(pcm, atMs);
+  }
+
+  // Model PCM16 at OUTPUT_SAMPLE_RATE. With `playback`, the chunk is placed
+  // where the player scheduled it, sped up as it was heard while catching up.
+  // Otherwise chunks queue up behind each other as they arrive.
+  // A change of target language starts a new span, one per rendering.
+  addTranslation(pcm: Uint8Array, language: Language | null = null, playback?: ScheduledPlayback): void {
+    const receivedMs = this.now();
+    const atMs = playback ? playback.at - this.startMs : receivedMs;
+    const startMs = this.translation.write(asPlayed(pcm, playback?.rate ?? 1), atMs);
+
+    const span = this.currentSpan;
+    if (span && language && span.language && language !== span.language) this.endTurn();
+    if (!this.currentSpan) {
+      this.currentSpan = { receivedMs, startMs, endMs: startMs, language };
+      this.translationSpans.push(this.currentSpan);
+    }
+    this.currentSpan.endMs = this.translation.endMs;
+    this.currentSpan.language ??= language;
+  }
+
+  // The model finished its turn; the next audio belongs to a new one
+  endTurn(): void {
+    this.currentSpan = null;
+  }
+
+  // Playback was cut off, so audio still queued was never heard
+  interrupt(): void {
+    const now = this.now();
+    if (this.translation.endMs > now) {
+      this.translation.truncate(now);
+      this.translationSpans.forEach(span => {
+        span.endMs = Math.max(span.startMs, Math.min(span.endMs, now));
+      });
+    }
+    this.endTurn();
+  }
+
+  finish(): SessionRecording {
+    return {
+      original: this.original.toWav(),
+      translation: this.translation.toWav(),
+      translationSpans: this.translationSpans
+        .filter(span => span.endMs > span.startMs)
+        .map(span => ({ ...span }))
+    };
+  }
+
+  private now(): number {
+    return Date.now() - this.startMs;
+  }
+}
+
+// A copy of the chunk as it sounds at `rate`, so it takes as long on the track
+// as it did to play. The copy also keeps later chunks from aliasing the decode buffer.
+function asPlayed(pcm: Uint8Array, rate: number): ArrayBuffer {
+  const samples = new Int16Array(pcm.slice().buffer);
+  if (rate === 1) return samples.buffer;
+  const floats = Float32Array.from(samples, sample => sample / 32768);
+  const played = resample(floats, OUTPUT_SAMPLE_RATE * rate, OUTPUT_SAMPLE_RATE);
+  return Int16Array.from(played, sample => Math.max(-32768, Math.min(32767, Math.round(sample * 32768)))).buffer;
+}
+
+// The recorded audio of one side of an exchange, or null if there is none
+export async function clipForTurn(
+  session: SessionTranscript,
+  turn: TranscriptTurn,
+  side: 'original' | 'translation'
+): Promise<Blob | null> {
+  const recording = session.recording;
+  if (!recording) return null;
+  const origin = session.startedAt.getTime();
+  const startMs = turn.startedAt.getTime() - origin;
+
+  let clip: Blob | null = null;
+  if (side === 'original') {
+    const endMs = turn.endedAt.getTime() - origin;
+    clip = await sliceWav(recording.original, startMs - ORIGINAL_LEAD_MS, endMs + ORIGINAL_TAIL_MS);
+  } else {
+    // The first translated words arrive together with the rendering's first audio
+    const spans = recording.translationSpans.filter(span => !turn.language || !span.language || span.language === turn.language);
+    let best: TranslationSpan | null = null;
+    for (const span of spans) {
+      if (!best || Math.abs(span.receivedMs - startMs) < Math.abs(best.receivedMs - startMs)) best = span;
+    }
+    if (best) clip = await sliceWav(recording.translation, best.startMs, best.endMs);
+  }
+  return clip && clip.size > WAV_HEADER_BYTES ? clip : null;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptStore } from './TranscriptStore';
+
+const texts = (store: TranscriptStore) => store.getSnapshot().map(exchange => ({
+  original: exchange.original?.text ?? null,
+  translations: exchange.translations.map(translation => translation.text)
+}));
+
+describe('TranscriptStore', () => {
+  it('merges fragments into one exchange per utterance and its translation', () => {
+    const store = new TranscriptStore(['en', 'it']);
+    store.addOriginal('Good morning, ');
+    store.addOriginal('how are you?');
+    store.addTranslation('Buongiorno, ');
+    store.addTranslation('come stai?');
+    store.completeGeneration();
+    store.completeTurn();
+    store.addOriginal('Bene, grazie.');
+    store.addTranslation('Fine, thanks.');
+    store.completeTurn();
+
+    expect(texts(store)).toEqual([
+      { original: 'Good morning, how are you?', translations: ['Buongiorno, come stai?'] },
+      { original: 'Bene, grazie.', translations: ['Fine, thanks.'] }
+    ]);
+    expect(store.getSnapshot().every(exchange => exchange.isComplete)).toBe(true);
+  });
+
+  it('pairs each translation with the oldest utterance still waiting when speakers overlap', () => {
+    const store = new TranscriptStore(['en', 'it']);
+    store.addOriginal('Where is the station?', 'en');
+    // The other speaker answers before the first translation arrives
+    store.addOriginal('Non lo so.', 'it');
+    store.addTranslation('Dov\'è la stazione?', 'it');
+    store.completeTurn();
+    store.addTranslation('I don\'t know.', 'en');
+    store.completeTurn();
+
+    expect(texts(store)).toEqual([
+      { original: 'Where is the station?', translations: ['Dov\'è la stazione?'] },
+      { original: 'Non lo so.', translations: ['I don\'t know.'] }
+    ]);
+  });
+
+  it('does not wait on an utterance the interpreter passed over', () => {
+    const store = new TranscriptStore(['en', 'it']);
+    store.addOriginal('Mm.', 'en');
+    // The model stays silent and ends the turn
+    store.completeTurn();
+    store.addOriginal('Andiamo.', 'it');
+    store.addTranslation('Let\'s go.', 'en');
+
+    expect(texts(store)).toEqual([
+      { original: 'Mm.', translations: [] },
+      { original: 'Andiamo.', translations: ['Let\'s go.'] }
+    ]);
+  });
+
+  it('starts a new rendering when the translation changes language', () => {
+    const store = new TranscriptStore(['en', 'it', 'de']);
+    store.addOriginal('Hello everyone.', 'en');
+    store.addTranslation('Ciao a tutti.', 'it');
+    store.addTranslation('Hallo zusammen.', 'de');
+    store.completeTurn();
+
+    expect(store.getSnapshot()[0].translations.map(translation => translation.language)).toEqual(['it', 'de']);
+  });
+});
@@ -0,0 +1,162 @@
+import { Language, TranscriptExchange, TranscriptTurn } from '../types';
+import { detectLanguage } from '../utils/language';
+import { TypedEmitter } from './emitter';
+
+export interface TranscriptStoreEvents {
+  change: TranscriptExchange[];
+}
+
+// Merges the Live API's transcription fragments into exchanges, each pairing
+// an original utterance with its translations. Snapshots are immutable: every
+// change produces a new array, so it can back React's useSyncExternalStore.
+export class TranscriptStore extends TypedEmitter<TranscriptStoreEvents> {
+  private exchanges: TranscriptExchange[] = [];
+  private languages: Language[];
+  // Exchange currently receiving input transcription
+  private inputIndex: number | null = null;
+  // Exchange currently receiving output transcription
+  private outputIndex: number | null = null;
+
+  constructor(languages: Language[]) {
+    super();
+    this.languages = languages;
+  }
+
+  // For useSyncExternalStore
+  subscribe = (listener: () => void): (() => void) => this.on('change', listener);
+  getSnapshot = (): TranscriptExchange[] => this.exchanges;
+
+  setLanguages(languages: Language[]): void {
+    this.languages = languages;
+  }
+
+  clear(): void {
+    this.inputIndex = null;
+    this.outputIndex = null;
+    this.commit([]);
+  }
+
+  // `language` is the speaker's language when it is known rather than detected
+  addOriginal(text: string, language: Language | null = null, at: Date = new Date()): void {
+    // Speech that starts while the previous translation is under way is a new
+    // utterance, and so is a different speaker starting before it
+    const current = this.inputIndex !== null ? this.exchanges[this.inputIndex] : null;
+    const otherSpeaker = !!language && !!current?.original?.language && current.original.language !== language;
+    if (!current || current.translations.length > 0 || current.isComplete || otherSpeaker) {
+      this.inputIndex = this.startExchange();
+    }
+    const index = this.inputIndex!;
+    this.update(index, exchange => ({
+      ...exchange,
+      original: this.appendText(exchange.original, text, at, language)
+    }));
+  }
+
+  // A typed message, complete as it arrives; its translation follows like a spoken one's
+  addTyped(text: string, language: Language, at: Date = new Date()): void {
+    this.inputIndex = this.startExchange();
+    this.update(this.inputIndex, exchange => ({
+      ...exchange,
+      original: { text, language, startedAt: at, endedAt: at, typed: true }
+    }));
+  }
+
+  // `language` is the language the interpreter is rendering into, when the
+  // session knows it. A change of language starts the next rendering.
+  addTranslation(text: string, language: Language | null = null, at: Date = new Date()): void {
+    if (this.outputIndex === null) {
+      // Translate the oldest utterance still waiting, or stand alone if there is none
+      this.outputIndex = this.oldestWaiting() ?? this.startExchange();
+    }
+    const index = this.outputIndex;
+    this.update(index, exchange => {
+      const translations = exchange.translations.slice();
+      const last = translations[translations.length - 1];
+      const isNext = last && language && last.language && language !== last.language;
+      const current = last && !isNext ? last : null;
+
+      const translation = this.appendText(current, text, at);
+      if (language) translation.language = language;
+      // Until the translation says enough to tell, assume it goes the other way
+      if (!translation.language && exchange.original?.language) {
+        const others = this.languages.filter(lang => lang !== exchange.original!.language);
+        if (others.length === 1) translation.language = others[0];
+      }
+
+      if (current) translations[translations.length - 1] = translation;
+      else translations.push(translation);
+      return { ...exchange, translations };
+    });
+  }
+
+  // The model has finished generating the current translation
+  completeGeneration(at: Date = new Date()): void {
+    if (this.outputIndex === null) return;
+    this.update(this.outputIndex, exchange => {
+      const translations = exchange.translations.slice();
+      const last = translations.length - 1;
+      if (last >= 0) translations[last] = { ...translations[last], endedAt: at };
+      return { ...exchange, translations };
+    });
+  }
+
+  markInterrupted(): void {
+    const index = this.outputIndex ?? this.inputIndex;
+    if (index === null) return;
+    this.update(index, exchange => ({ ...exchange, wasInterrupted: true }));
+  }
+
+  // Close the exchange whose translation just finished
+  completeTurn(): void {
+    const index = this.outputIndex ?? this.inputIndex;
+    if (index === null) return;
+    this.update(index, exchange => ({ ...exchange, isComplete: true }));
+    if (this.inputIndex === index) this.inputIndex = null;
+    this.outputIndex = null;
+  }
+
+  // The first utterance no translation has started on yet. The search stops at
+  // the last exchange that was translated, or whose turn ended without one.
+  private oldestWaiting(): number | null {
+    let index: number | null = null;
+    for (let i = this.exchanges.length - 1; i >= 0; i--) {
+      const exchange = this.exchanges[i];
+      if (exchange.translations.length > 0 || exchange.isComplete) break;
+      if (exchange.original) index = i;
+    }
+    return index;
+  }
+
+  private startExchange(): number {
+    const exchange: TranscriptExchange = {
+      id: Math.random().toString(36).substring(7),
+      original: null,
+      translations: [],
+      isComplete: false,
+      wasInterrupted: false
+    };
+    this.exchanges = [...this.exchanges, exchange];
+    return this.exchanges.length - 1;
+  }
+
+  private appendText(turn: TranscriptTurn | null, text: string, at: Date, known: Language | null = null): TranscriptTurn {
+    const merged = (turn?.text ?? '') + text;
+    return {
+      text: merged,
+      language: known ?? detectLanguage(merged, this.languages) ?? turn?.language ?? null,
+      startedAt: turn?.startedAt ?? at,
+      endedAt: at
+    };
+  }
+
+  private update(index: number, change: (exchange: TranscriptExchange) => TranscriptExchange): void {
+    const next = this.exchanges.slice();
+    next[index] = change(next[index]);
+    this.commit(next);
+  }
+
+  private commit(exchanges: TranscriptExchange[]): void {
+    this.exchanges = exchanges;
+    this.emit('change', exchanges);
+  }
+}
@@ -0,0 +1,343 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConnectionState, SessionConfig, SessionMetrics } from '../types';
+import { decode } from '../utils/audio';
+import { CaptureFrame } from '../utils/captureWorklet';
+import { getLanguage } from '../utils/languageRegistry';
+import { AudioIO, ScheduledPlayback } from './audioIO';
+import {
+  MockLiveTransport,
+  MockScriptStep,
+  mockAudio,
+  mockGoAway,
+  mockInputTranscription,
+  mockInterrupted,
+  mockOutputTranscription,
+  mockResumptionHandle,
+  mockTurnComplete
+} from './mockTransport';
+import { TranscriptStore } from './TranscriptStore';
+import { MAX_RECONNECT_ATTEMPTS, PlayedAudio, TranslatorSession } from './TranslatorSession';
+
+const CONFIG: SessionConfig = { languages: ['en-US', 'it-IT'], strategy: 'broadcast', splitAudio: true };
+
+// Records what the session does with local audio instead of playing it
+class FakeAudioIO implements AudioIO {
+  played: { bytes: number; pan: number }[] = [];
+  interrupts = 0;
+  stops = 0;
+  backlog = 0;
+  outputLevel = 0;
+  onFrame: ((frame: CaptureFrame) => void) | null = null;
+
+  constructor(private startError: Error | null = null) {}
+
+  async start(onFrame: (frame: CaptureFrame) => void): Promise<void> {
+    if (this.startError) throw this.startError;
+    this.onFrame = onFrame;
+  }
+
+  play(pcm: Uint8Array, pan: number): ScheduledPlayback {
+    this.played.push({ bytes: pcm.byteLength, pan });
+    return { at: Date.now() + this.backlog * 1000, rate: 1 };
+  }
+
+  interrupt(): void {
+    this.interrupts++;
+  }
+
+  duck(): void {}
+
+  stop(): void {
+    this.stops++;
+    this.onFrame = null;
+  }
+}
+
+// A session wired to a mock transport, with everything it emits recorded
+const createSession = (scripts: MockScriptStep[][], options: { failAttempts?: number[]; audio?: AudioIO; config?: Partial<SessionConfig> } = {}) => {
+  const transport = new MockLiveTransport(scripts, { failAttempts: options.failAttempts });
+  const config = { ...CONFIG, ...options.config };
+  const session = new TranslatorSession({ config, transport, audio: options.audio });
+  const states: ConnectionState[] = [];
+  const errors: string[] = [];
+  let metrics: SessionMetrics | null = null;
+  session.on('state', state => states.push(state));
+  session.on('error', message => errors.push(message));
+  session.on('metrics', latest => { metrics = latest; });
+  // Wired up the way the React hook does it
+  const transcript = new TranscriptStore(config.languages);
+  session.on('transcription', ({ text, isUser, language }) => {
+    if (isUser) transcript.addOriginal(text, language);
+    else transcript.addTranslation(text, language);
+  });
+  session.on('generationComplete', () => transcript.completeGeneration());
+  session.on('interrupted', () => transcript.markInterrupted());
+  session.on('turnComplete', () => transcript.completeTurn());
+  return { session, transport, transcript, states, errors, metrics: () => metrics! };
+};
+
+// 40ms of quiet mic audio at 16kHz
+const micFrame = () => new Int16Array(640).fill(1000).buffer;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('TranslatorSession', () => {
+  it('connects through the transport with the interpreter instructions', async () => {
+    const audio = new FakeAudioIO();
+    const { session, transport, states } = createSession([[]], { audio });
+    session.connect();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(states).toEqual(['requesting_permission', 'connecting', 'connected']);
+    expect(transport.connections).toHaveLength(1);
+    const { config } = transport.connections[0];
+    expect(config.systemInstruction).toContain('They speak English (United States) and Italian.');
+    expect(config.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName).toBeTruthy();
+
+    // Mic frames go out as realtime input once connected
+    audio.onFrame!({ pcm: micFrame(), rms: 0.03 });
+    expect(transport.connections[0].realtimeInput).toHaveLength(1);
+    expect(transport.connections[0].realtimeInput[0].media?.mimeType).toBe('audio/pcm;rate=16000');
+
+    session.disconnect();
+    expect(states[states.length - 1]).toBe('disconnected');
+    expect(transport.connections[0].closed).toBe(true);
+    expect(audio.stops).toBeGreaterThan(0);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('releases the mic and stops its timers when the first connection fails', async () => {
+    const audio = new FakeAudioIO();
+    const { session, states, errors } = createSession([[]], { audio, failAttempts: [0] });
+    session.connect();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(states[states.length - 1]).toBe('error');
+    expect(errors).toHaveLength(1);
+    expect(audio.stops).toBeGreaterThan(0);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('cleans up when the mic cannot be opened', async () => {
+    const audio = new FakeAudioIO(new Error('Microphone access denied.'));
+    const { session, transport, states, errors } = createSession([[]], { audio });
+    await session.connect();
+
+    expect(states).toEqual(['requesting_permission', 'error']);
+    expect(errors).toEqual(['Microphone access denied.']);
+    expect(transport.connections).toHaveLength(0);
+    expect(audio.stops).toBeGreaterThan(0);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('pairs transcriptions into exchanges and plays each translation towards its listener', async () => {
+    const audio = new FakeAudioIO();
+    const { session, transcript } = createSession([[
+      { delayMs: 10, message: mockInputTranscription('Good morning, how are you today?') },
+      { delayMs: 10, message: mockOutputTranscription('Buongiorno, come stai oggi?') },
+      { delayMs: 10, message: mockAudio(200) },
+      { delayMs: 10, message: mockTurnComplete() },
+      { delayMs: 10, message: mockInputTranscription('Bene, grazie, e tu come stai?') },
+      { delayMs: 10, message: mockAudio(200) },
+      { delayMs: 10, message: mockOutputTranscription('Fine, thanks, and how are you?') },
+      { delayMs: 10, message: mockTurnComplete() }
+    ]], { audio });
+    session.connect();
+    await vi.advanceTimersByTimeAsync(200);
+
+    const exchanges = transcript.getSnapshot();
+    expect(exchanges).toHaveLength(2);
+    expect(exchanges[0].original).toMatchObject({ text: 'Good morning, how are you today?', language: 'en-US' });
+    expect(exchanges[0].translations).toMatchObject([{ text: 'Buongiorno, come stai oggi?', language: 'it-IT' }]);
+    expect(exchanges[1].original).toMatchObject({ text: 'Bene, grazie, e tu come stai?', language: 'it-IT' });
+    expect(exchanges[1].translations).toMatchObject([{ text: 'Fine, thanks, and how are you?', language: 'en-US' }]);
+    expect(exchanges.every(exchange => exchange.isComplete)).toBe(true);
+
+    // Italian to the right ear (B), English to the left (A), even before the
+    // output transcription says so
+    expect(audio.played.map(chunk => chunk.pan)).toEqual([1, -1]);
+    session.disconnect();
+  });
+
+  it('stops playback and marks the turn when the model is interrupted', async () => {
+    const audio = new FakeAudioIO();
+    const { session, transcript, metrics } = createSession([[
+      { delayMs: 10, message: mockInputTranscription('Let me explain the schedule for today.') },
+      { delayMs: 10, message: mockAudio(500) },
+      { delayMs: 10, message: mockInterrupted() },
+      { delayMs: 10, message: mockTurnComplete() }
+    ]], { audio });
+    const interrupted = vi.fn();
+    session.on('interrupted', interrupted);
+    session.connect();
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(audio.interrupts).toBe(1);
+    expect(interrupted).toHaveBeenCalledTimes(1);
+    expect(transcript.getSnapshot()[0].wasInterrupted).toBe(true);
+    expect(metrics().turns).toMatchObject([{ interrupted: true, audioSeconds: 0.5 }]);
+    session.disconnect();
+  });
+
+  it('reports what the mic heard and what was played, for recordings', async () => {
+    const audio = new FakeAudioIO();
+    const { session, transport } = createSession([[
+      { delayMs: 10, message: mockInputTranscription('Good morning, how are you today?') },
+      { delayMs: 10, message: mockAudio(200) }
+    ]], { audio, config: { echoGuard: 'gate' } });
+    const heard: ArrayBuffer[] = [];
+    const played: PlayedAudio[] = [];
+    session.on('inputAudio', pcm => heard.push(pcm));
+    session.on('playedAudio', chunk => played.push(chunk));
+    let playedAt = 0;
+    const play = audio.play.bind(audio);
+    audio.play = (pcm, pan) => {
+      audio.backlog = 2.5;
+      playedAt = Date.now() + 2500;
+      return play(pcm, pan);
+    };
+    session.connect();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(played).toHaveLength(1);
+    // Where the player put it, not when it arrived
+    expect(played[0]).toMatchObject({ at: playedAt, rate: 1, targetLanguage: 'it-IT' });
+    expect(played[0].pcm.byteLength).toBe(audio.played[0].bytes);
+
+    // The interpreter is playing, so the gate sends silence, but the mic's
+    // own audio is still reported
+    const frame = micFrame();
+    audio.onFrame!({ pcm: frame, rms: 0.03 });
+    expect(heard).toEqual([frame]);
+    const sent = transport.connections[0].realtimeInput;
+    expect(decode(sent[sent.length - 1].media!.data!).every(byte => byte === 0)).toBe(true);
+    session.disconnect();
+  });
+
+  it('rolls over to a resumed connection when the server sends goAway', async () => {
+    const { session, transport, states, metrics } = createSession([
+      [
+        { delayMs: 10, message: mockResumptionHandle('handle-1') },
+        { delayMs: 10, message: mockGoAway() }
+      ],
+      []
+    ]);
+    session.connect();
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(transport.connections).toHaveLength(2);
+    expect(transport.connections[0].closed).toBe(true);
+    expect(transport.connections[1].config.sessionResumption?.handle).toBe('handle-1');
+    // A resumed session needs no transcript replayed into it
+    expect(transport.connections[1].clientContent).toHaveLength(0);
+    expect(states).not.toContain('reconnecting');
+    expect(states[states.length - 1]).toBe('connected');
+    expect(metrics().reconnects).toBe(1);
+    session.disconnect();
+  });
+
+  it('lets the interpreter finish its sentence before rolling over', async () => {
+    const { session, transport } = createSession([
+      [
+        { delayMs: 10, message: mockAudio(300) },
+        { delayMs: 10, message: mockGoAway() },
+        { delayMs: 1000, message: mockTurnComplete() }
+      ],
+      []
+    ]);
+    session.connect();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(transport.connections).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(transport.connections).toHaveLength(2);
+    session.disconnect();
+  });
+
+  it('speaks with the session voice and keeps the connection when the listening channel changes', async () => {
+    const { session, transport } = createSession([[]], { config: { voice: 'Puck' } });
+    const voiceOf = (i: number) => transport.connections[i].config.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName;
+    session.connect();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(voiceOf(0)).toBe('Puck');
+
+    session.setChannel('it-IT');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(transport.connections).toHaveLength(1);
+    session.disconnect();
+  });
+
+  it('defaults to the first language\'s voice', async () => {
+    const { session, transport } = createSession([[]]);
+    session.connect();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(transport.connections[0].config.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName).toBe(getLanguage('en-US')!.voice);
+    session.disconnect();
+  });
+
+  it('reconnects with backoff, keeping and replaying what was said meanwhile', async () => {
+    const { session, transport, states, metrics } = createSession([
+      [
+        { delayMs: 10, message: mockInputTranscription('We need to talk about the budget.') },
+        { delayMs: 10, message: mockOutputTranscription('Dobbiamo parlare del budget.') },
+        { delayMs: 10, message: mockTurnComplete() },
+        { delayMs: 100, close: true }
+      ],
+      []
+    ], { failAttempts: [1, 2] });
+    const start = Date.now();
+    session.connect();
+    await vi.advanceTimersByTimeAsync(200);
+    expect(states[states.length - 1]).toBe('reconnecting');
+
+    // Audio during the outage is buffered
+    session.sendAudio(micFrame());
+    session.sendAudio(micFrame());
+
+    // The connection dropped at 180ms (opened at 50ms, closed 130ms later).
+    // Attempts follow 1s, 2s and 4s after each loss; the mock takes 50ms to refuse.
+    const expectConnectionsAt = async (ms: number, count: number) => {
+      await vi.advanceTimersByTimeAsync(ms - Date.now() + start);
+      expect(transport.connections).toHaveLength(count);
+    };
+    await expectConnectionsAt(1179, 1);
+    await expectConnectionsAt(1180, 2);
+    await expectConnectionsAt(3229, 2);
+    await expectConnectionsAt(3230, 3);
+    expect(metrics().reconnectAttempt).toBe(2);
+    await expectConnectionsAt(7279, 3);
+    await expectConnectionsAt(7280, 4);
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(states[states.length - 1]).toBe('connected');
+    expect(metrics()).toMatchObject({ reconnectAttempt: 0, reconnects: 1 });
+    // Without a resumption handle, the new session is told what was said so far
+    const reseeded = transport.connections[3];
+    expect(reseeded.clientContent[0].turns).toMatchObject([{ parts: [{ text: expect.stringContaining('We need to talk about the budget.') }] }]);
+    expect(reseeded.realtimeInput).toHaveLength(2);
+    session.disconnect();
+  });
+
+  it(`gives up after ${MAX_RECONNECT_ATTEMPTS} failed reconnects`, async () => {
+    const { session, transport, states, errors } = createSession([[{ delayMs: 10, close: true }]], {
+      failAttempts: Array.from({ length: MAX_RECONNECT_ATTEMPTS }, (_, i) => i + 1)
+    });
+    session.connect();
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(transport.connections).toHaveLength(1 + MAX_RECONNECT_ATTEMPTS);
+    expect(states[states.length - 1]).toBe('error');
+    expect(errors).toHaveLength(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
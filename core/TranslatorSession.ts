@@ -0,0 +1,901 @@
+import { Blob, LiveConnectConfig, LiveServerMessage, Modality } from '@google/genai';
+import { ConnectionState, Language, SessionConfig, SessionMetrics } from '../types';
+import { createPcmBlob, decode } from '../utils/audio';
+import { CaptureFrame } from '../utils/captureWorklet';
+import { detectLanguage, panForTargetLanguage, pivotLanguageOf, targetLanguagesFor } from '../utils/language';
+import { getLanguage, languageLabel } from '../utils/languageRegistry';
+import { compileGlossary } from '../utils/glossary';
+import { DEFAULT_VOICE } from '../utils/voices';
+import { VoiceActivityDetector, rmsDb } from '../utils/vad';
+import { EchoGuard } from '../utils/echoGuard';
+import { AudioIO, DEFAULT_CAPTURE_FRAME_MS, INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, ScheduledPlayback } from './audioIO';
+import { TypedEmitter } from './emitter';
+import { LiveConnection, LiveTransport } from './transport';
+
+// Reconnect backoff: 1s, 2s, 4s ... capped, then give up
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+export const MAX_RECONNECT_ATTEMPTS = 6;
+const CONNECTION_TIMEOUT_MS = 15000;
+
+// The server recycles Live connections after roughly 10 minutes; move to a
+// fresh one a little earlier so long meetings continue uninterrupted
+const SESSION_ROLLOVER_MS = 9 * 60 * 1000;
+// How long a rollover waits for the interpreter to finish speaking
+const ROLLOVER_GRACE_MS = 5000;
+
+// Mic audio kept during an outage
+const MAX_BUFFERED_AUDIO_MS = 30000;
+// Transcript lines replayed into a new session when it can't be resumed
+const MAX_CONTEXT_LINES = 20;
+
+// Metrics are also sent on this interval, to follow the playback backlog
+const METRICS_INTERVAL_MS = 1000;
+// Without VAD or push-to-talk, frames louder than this count as speech when
+// timing how long the interpreter takes to answer
+const SPEECH_LEVEL_DB = -40;
+// With a mic per speaker, each mic also picks up the other person, only
+// quieter. Speech on a mic this far below the other one is taken as bleed.
+const CROSSTALK_MARGIN_DB = 6;
+
+// End of a sentence in the output transcription, where the model may move on
+// to rendering the next language
+const SENTENCE_END = /[.!?。！？؟]\s*$/;
+
+type SessionOpenReason = 'initial' | 'reconnect' | 'rollover';
+
+interface TranscriptLine {
+  isUser: boolean;
+  text: string;
+}
+
+export interface TranscriptionEvent {
+  text: string;
+  isUser: boolean;
+  // For translations, the language being rendered into, if known. For
+  // originals, the speaker's language when push-to-talk says so.
+  language: Language | null;
+  typed?: boolean; // An original sent with sendText()
+}
+
+// A chunk of translated speech as received from the model
+export interface TranslatedAudio {
+  pcm: Uint8Array; // Int16 PCM, mono
+  sampleRate: number;
+  targetLanguage: Language | null; // null while the direction is still unknown
+}
+
+// A chunk of translated speech as scheduled for local playback
+export interface PlayedAudio extends ScheduledPlayback {
+  pcm: Uint8Array; // Int16 PCM at OUTPUT_SAMPLE_RATE, mono
+  targetLanguage: Language | null; // As routed, null if it played to everyone
+}
+
+export interface TranslatorSessionEvents {
+  state: ConnectionState;
+  transcription: TranscriptionEvent;
+  audio: TranslatedAudio;
+  playedAudio: PlayedAudio; // Only with local playback, and only what this listener hears
+  inputAudio: ArrayBuffer; // Mic PCM16 at INPUT_SAMPLE_RATE while unmuted, before any echo gating, whether or not it is sent
+  voiceActivity: boolean; // On-device VAD heard speech start (true) or end (false)
+  interpreterSpeaking: boolean; // Translated audio started (true) or stopped (false) being audible locally
+  interrupted: undefined;
+  generationComplete: undefined;
+  turnComplete: undefined;
+  volume: number; // Mic level, 0 to 1
+  error: string;
+  metrics: SessionMetrics;
+}
+
+export interface TranslatorSessionOptions {
+  config: SessionConfig;
+  transport: LiveTransport;
+  // Local capture/playback. Without it, push mic audio via sendAudio() and
+  // consume translated speech from 'audio' events.
+  audio?: AudioIO;
+  captureFrameMs?: number; // Length of the frames passed to sendAudio, for buffering limits
+}
+
+function emptyMetrics(): SessionMetrics {
+  return {
+    reconnectAttempt: 0,
+    reconnects: 0,
+    audioSecondsSent: 0,
+    audioSecondsReceived: 0,
+    playbackBacklogSeconds: 0,
+    promptTokens: 0,
+    responseTokens: 0,
+    totalTokens: 0,
+    turns: []
+  };
+}
+
+// Framework-agnostic interpreter session: owns the Live connection, reconnects
+// and rollovers, translation direction tracking and routing of audio to AudioIO.
+export class TranslatorSession extends TypedEmitter<TranslatorSessionEvents> {
+  private config: SessionConfig;
+  private transport: LiveTransport;
+  private audio: AudioIO | undefined;
+  private captureFrameMs: number;
+
+  private state: ConnectionState = 'disconnected';
+  private muted = false;
+  private metrics: SessionMetrics = emptyMetrics();
+  private metricsTimer: ReturnType<typeof setInterval> | null = null;
+  // Last mic audio that sounded like speech, and the turn being answered
+  private lastSpeechAt: number | null = null;
+  private currentTurn: { at: number; speechEndedAt: number | null; audioSeconds: number; interrupted: boolean } | null = null;
+
+  private connection: LiveConnection | null = null;
+  private generation = 0;
+  private isStopping = false;
+  // Track if connection was successfully established to handle early closures
+  private hasConnected = false;
+  private resumptionHandle: string | null = null;
+  private pendingAudio: Blob[] = [];
+  private transcriptContext: TranscriptLine[] = [];
+
+  private connectionTimeout: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private rolloverTimer: ReturnType<typeof setTimeout> | null = null;
+  private rolloverGraceTimer: ReturnType<typeof setTimeout> | null = null;
+  private rolloverPending = false;
+  private modelSpeaking = false;
+
+  // Transcribed text of the current turn, used to work out the translation direction
+  private inputText = '';
+  private outputSentence = '';
+  // Language of the rendering in progress, once detected from the output transcription
+  private turnTarget: Language | null = null;
+  // Languages already rendered into this turn; each is spoken only once
+  private renderedTargets: Language[] = [];
+
+  // Only translations into this language are played; null plays them all
+  private channel: Language | null = null;
+  // Audio whose target language isn't known yet, while a channel is selected
+  private heldAudio: Uint8Array[] = [];
+
+  // With push-to-talk or on-device VAD the client marks where speech starts
+  // and ends. The utterance open now, with its speaker's language when
+  // push-to-talk knows it.
+  private utterance: { source: Language | null } | null = null;
+  // Utterance the audio buffered during an outage belongs to
+  private pendingUtterance: { source: Language | null } | null = null;
+  // Known source language of the turn being translated
+  private turnSource: Language | null = null;
+  private vad: VoiceActivityDetector | null = null;
+  // With a mic per speaker, a detector for each mic
+  private channelVads: VoiceActivityDetector[] = [];
+  private echoGuard: EchoGuard;
+  private interpreterSpeaking = false;
+
+  constructor(options: TranslatorSessionOptions) {
+    super();
+    this.config = options.config;
+    this.transport = options.transport;
+    this.audio = options.audio;
+    this.captureFrameMs = options.captureFrameMs ?? DEFAULT_CAPTURE_FRAME_MS;
+    this.echoGuard = new EchoGuard(this.config.echoGuard ?? 'off', INPUT_SAMPLE_RATE);
+    // Push-to-talk buttons already say when someone speaks
+    if (this.config.micPerSpeaker && !this.config.pushToTalk) {
+      this.channelVads = this.config.languages.slice(0, 2).map(() => new VoiceActivityDetector(INPUT_SAMPLE_RATE, this.config.vadSensitivity));
+    } else if (this.config.voiceActivityDetection && !this.config.pushToTalk) {
+      this.vad = new VoiceActivityDetector(INPUT_SAMPLE_RATE, this.config.vadSensitivity);
+    }
+  }
+
+  get connectionState(): ConnectionState {
+    return this.state;
+  }
+
+  get isMuted(): boolean {
+    return this.muted;
+  }
+
+  async connect(): Promise<void> {
+    this.resetRun();
+
+    try {
+      // Step 1: Request Microphone
+      if (this.audio) {
+        this.setState('requesting_permission');
+        await this.audio.start(frame => this.handleFrame(frame));
+        if (this.isStopping) {
+          this.audio.stop();
+          return;
+        }
+      }
+
+      // Step 2: Connect to API
+      this.setState('connecting');
+      this.metricsTimer = setInterval(() => this.emitMetrics(), METRICS_INTERVAL_MS);
+      await this.openSession('initial');
+    } catch (err: any) {
+      console.error("Connection failed", err);
+      // Release whatever did start: mic streams, audio contexts, the metrics timer
+      this.cleanup();
+      this.fail(err.message || "Failed to initialize connection");
+    }
+  }
+
+  disconnect(): void {
+    this.cleanup();
+    this.setState('disconnected');
+  }
+
+  // Choose which language's translations this listener hears (null for all)
+  setChannel(language: Language | null): void {
+    this.channel = language;
+    this.heldAudio = [];
+  }
+
+  // Push-to-talk: the speaker of `language` starts talking. Their audio is sent
+  // as one utterance in that language until stopTalking(); pressing another
+  // speaker's button hands over directly.
+  startTalking(language: Language): void {
+    if (!this.config.pushToTalk || this.utterance?.source === language) return;
+    this.openUtterance(language);
+  }
+
+  stopTalking(): void {
+    if (this.config.pushToTalk) this.closeUtterance();
+  }
+
+  // A message typed by the speaker of `source`, translated and spoken like
+  // speech. Returns false if there is no connection to send it on.
+  sendText(text: string, source: Language): boolean {
+    const message = text.trim();
+    if (!message || !this.connection) return false;
+    const targets = targetLanguagesFor(source, this.config).map(languageLabel);
+    this.turnSource = source;
+    this.lastSpeechAt = Date.now();
+    this.connection.sendClientContent({
+      turns: [{
+        role: 'user',
+        parts: [{ text: `A participant typed this message in ${languageLabel(source)}. Translate it into ${targets.join(', then ')} and speak only the translation:\n\n${message}` }]
+      }],
+      turnComplete: true
+    });
+    this.rememberTranscript(message, true);
+    this.emit('transcription', { text: message, isUser: true, language: source, typed: true });
+    return true;
+  }
+
+  // 0 to 1; higher picks up quieter speech, and more noise
+  setVadSensitivity(sensitivity: number): void {
+    this.vad?.setSensitivity(sensitivity);
+    this.channelVads.forEach(vad => vad.setSensitivity(sensitivity));
+  }
+
+  setMuted(muted: boolean): void {
+    this.muted = muted;
+    if (muted) {
+      // Whatever was being said is over
+      this.closeUtterance();
+      this.vad?.reset();
+      this.channelVads.forEach(vad => vad.reset());
+      // Explicitly report silence so visualizers stop
+      this.emit('volume', 0);
+    }
+  }
+
+  // Send a chunk of INPUT_SAMPLE_RATE PCM16 mic audio. With push-to-talk only
+  // audio from a held button goes out; with VAD only speech does. With a mic
+  // per speaker, `channels` holds each mic's frame (A first) and `pcm` their mix.
+  sendAudio(pcm: ArrayBuffer, channels?: ArrayBuffer[]): void {
+    if (this.muted) return;
+    this.emit('inputAudio', pcm);
+    this.forwardAudio(pcm, channels);
+  }
+
+  private forwardAudio(pcm: ArrayBuffer, channels?: ArrayBuffer[]): void {
+    if (this.config.pushToTalk) {
+      if (!this.utterance) return;
+      this.lastSpeechAt = Date.now();
+      // Only the mic of whoever holds the button
+      const talker = this.config.languages.indexOf(this.utterance.source ?? '');
+      this.streamAudio(channels?.[talker] ?? pcm);
+      return;
+    }
+    if (this.channelVads.length > 0 && channels && channels.length >= this.channelVads.length) {
+      this.sendChannels(channels);
+      return;
+    }
+    if (!this.vad) {
+      if (rmsDb(new Int16Array(pcm)) > SPEECH_LEVEL_DB) this.lastSpeechAt = Date.now();
+      this.streamAudio(pcm);
+      return;
+    }
+
+    const activity = this.vad.process(pcm);
+    if (activity.voiced) this.lastSpeechAt = Date.now();
+    if (activity.started) {
+      this.openUtterance(null);
+      activity.preroll.forEach(frame => this.streamAudio(frame));
+      this.emit('voiceActivity', true);
+    }
+    if (activity.isSpeech || activity.ended) this.streamAudio(pcm);
+    if (activity.ended) {
+      this.closeUtterance();
+      this.emit('voiceActivity', false);
+    }
+  }
+
+  // One mic per speaker: whoever starts speaking first holds the floor, as an
+  // utterance in their language, until they stop
+  private sendChannels(channels: ArrayBuffer[]): void {
+    const { languages } = this.config;
+    const levels = channels.map(pcm => rmsDb(new Int16Array(pcm)));
+    const activity = this.channelVads.map((vad, i) => vad.process(channels[i]));
+    if (activity.some(result => result.voiced)) this.lastSpeechAt = Date.now();
+
+    const holder = this.utterance ? languages.indexOf(this.utterance.source ?? '') : -1;
+    if (holder >= 0) {
+      this.streamAudio(channels[holder]);
+      if (!activity[holder].isSpeech) {
+        this.closeUtterance();
+        this.emit('voiceActivity', false);
+      }
+      return;
+    }
+
+    const loudest = Math.max(...levels);
+    const speaker = activity.findIndex((result, i) =>
+      result.isSpeech && levels[i] > loudest - CROSSTALK_MARGIN_DB);
+    if (speaker < 0) return;
+    this.openUtterance(languages[speaker]);
+    // Pre-roll only exists on the frame that started the speech
+    activity[speaker].preroll.forEach(frame => this.streamAudio(frame));
+    this.streamAudio(channels[speaker]);
+    this.emit('voiceActivity', true);
+  }
+
+  // While a dropped connection is being re-established audio is held so
+  // nothing said in the gap is lost
+  private streamAudio(pcm: ArrayBuffer): void {
+    const pcmBlob = createPcmBlob(pcm, INPUT_SAMPLE_RATE);
+    if (this.connection) {
+      this.connection.sendRealtimeInput({ media: pcmBlob });
+      this.metrics.audioSecondsSent += pcm.byteLength / 2 / INPUT_SAMPLE_RATE;
+      return;
+    }
+    if (this.hasConnected) {
+      this.pendingAudio.push(pcmBlob);
+      this.pendingUtterance = this.utterance;
+      if (this.pendingAudio.length > MAX_BUFFERED_AUDIO_MS / this.captureFrameMs) {
+        this.pendingAudio.shift();
+      }
+    }
+  }
+
+  private handleFrame(frame: CaptureFrame): void {
+    this.followPlayback(frame.pcm);
+    if (this.muted) return;
+    this.emit('volume', Math.min(frame.rms * 5, 1)); // Scale up a bit
+    const channels = frame.channels?.map(channel => channel.pcm);
+    // Recordings keep what the mic heard, even while the echo guard holds it back
+    this.emit('inputAudio', frame.pcm);
+    if (this.echoGuard.allows(frame.pcm)) {
+      this.forwardAudio(frame.pcm, channels);
+      return;
+    }
+    // Silence rather than nothing, so speech detection sees a pause
+    const silence = (pcm: ArrayBuffer) => new ArrayBuffer(pcm.byteLength);
+    this.forwardAudio(silence(frame.pcm), channels?.map(silence));
+  }
+
+  // Whether the interpreter can be heard in the room, for the echo guard and the UI
+  private followPlayback(pcm: ArrayBuffer): void {
+    if (!this.audio) return;
+    this.echoGuard.update(pcm.byteLength / 2 / INPUT_SAMPLE_RATE * 1000, this.audio.backlog, this.audio.outputLevel);
+    if (this.echoGuard.isInterpreterAudible !== this.interpreterSpeaking) {
+      this.interpreterSpeaking = this.echoGuard.isInterpreterAudible;
+      this.emit('interpreterSpeaking', this.interpreterSpeaking);
+    }
+  }
+
+  private resetRun(): void {
+    this.cleanup();
+    this.isStopping = false;
+    this.hasConnected = false;
+    this.muted = false;
+    this.utterance = null;
+    this.vad?.reset();
+    this.resetTurn();
+    this.resumptionHandle = null;
+    this.transcriptContext = [];
+    this.metrics = emptyMetrics();
+    this.lastSpeechAt = null;
+    this.emitMetrics();
+  }
+
+  private cleanup(): void {
+    this.hasConnected = false;
+    this.isStopping = true;
+    this.generation++;
+
+    this.clearTimer('connectionTimeout');
+    this.clearTimer('reconnectTimer');
+    this.clearTimer('rolloverTimer');
+    this.clearTimer('rolloverGraceTimer');
+    if (this.metricsTimer) {
+      clearInterval(this.metricsTimer);
+      this.metricsTimer = null;
+    }
+
+    if (this.connection) {
+      this.connection.close();
+      this.connection = null;
+    }
+    this.pendingAudio = [];
+    this.pendingUtterance = null;
+    this.heldAudio = [];
+    this.rolloverPending = false;
+    this.modelSpeaking = false;
+    this.currentTurn = null;
+    this.echoGuard.reset();
+    this.interpreterSpeaking = false;
+
+    this.audio?.stop();
+    this.emit('volume', 0);
+  }
+
+  private clearTimer(name: 'connectionTimeout' | 'reconnectTimer' | 'rolloverTimer' | 'rolloverGraceTimer'): void {
+    const timer = this[name];
+    if (timer) {
+      clearTimeout(timer);
+      this[name] = null;
+    }
+  }
+
+  private setState(state: ConnectionState): void {
+    this.state = state;
+    this.emit('state', state);
+  }
+
+  private fail(message: string): void {
+    this.emit('error', message);
+    this.setState('error');
+  }
+
+  private emitMetrics(): void {
+    this.metrics.playbackBacklogSeconds = this.audio?.backlog ?? 0;
+    this.emit('metrics', { ...this.metrics, turns: [...this.metrics.turns] });
+  }
+
+  // The first translated audio of a turn; it answers the speech before it
+  private startTurnMetrics(): void {
+    if (this.currentTurn) return;
+    this.currentTurn = { at: Date.now(), speechEndedAt: this.lastSpeechAt, audioSeconds: 0, interrupted: false };
+    this.lastSpeechAt = null;
+  }
+
+  private finishTurnMetrics(): void {
+    const turn = this.currentTurn;
+    if (!turn) return;
+    this.currentTurn = null;
+    // Interrupted audio stops now; otherwise it ends once the queue drains
+    const playbackEndsAt = Date.now() + (turn.interrupted ? 0 : (this.audio?.backlog ?? 0) * 1000);
+    const since = turn.speechEndedAt;
+    this.metrics.turns.push({
+      at: new Date(turn.at),
+      firstAudioMs: since === null ? null : turn.at - since,
+      playbackEndMs: since === null ? null : Math.round(playbackEndsAt - since),
+      audioSeconds: turn.audioSeconds,
+      interrupted: turn.interrupted
+    });
+  }
+
+  // A connection speaks with a single voice, whichever language it translates into
+  private voiceName(): string {
+    return this.config.voice ?? getLanguage(this.config.languages[0])?.voice ?? DEFAULT_VOICE;
+  }
+
+  private buildConfig(): LiveConnectConfig {
+    const { languages } = this.config;
+    const names = languages.map(languageLabel);
+    const voiceName = this.voiceName();
+
+    const list = names.length > 2
+      ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+      : names.join(' and ');
+    const rules = languages.map(source => {
+      const targets = targetLanguagesFor(source, this.config).map(languageLabel);
+      return targets.length === 1
+        ? `When you hear ${languageLabel(source)}, immediately translate it verbally into ${targets[0]}.`
+        : `When you hear ${languageLabel(source)}, immediately translate it verbally into ${targets.join(', then ')}, in that order. Finish each language before starting the next.`;
+    });
+    const pivotNote = languages.length > 2 && this.config.strategy === 'pivot'
+      ? ` Everyone understands ${languageLabel(pivotLanguageOf(this.config))}, so it is the shared language of the meeting.`
+      : '';
+    if (this.config.pushToTalk || this.channelVads.length > 0) {
+      rules.push('Each utterance is preceded by a note saying which language the speaker uses. Trust it over what you hear, even if they mix in words from another language, and never translate back into that language.');
+    }
+
+    // Define System Instruction
+    const systemInstruction = `
+      You are an expert simultaneous interpreter.
+      Your task is to listen to a conversation between ${languages.length} people.
+      They speak ${list}.${pivotNote}
+
+      Rules:
+${rules.map((rule, i) => `      ${i + 1}. ${rule}`).join('\n')}
+      ${rules.length + 1}. Do not engage in the conversation. Do not answer questions. Only translate.
+      ${rules.length + 2}. Keep your translations concise and accurate.
+      ${rules.length + 3}. If the audio is unclear, stay silent.
+    `;
+    const terminology = compileGlossary(this.config.glossary ?? []);
+
+    return {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+      },
+      systemInstruction: terminology ? `${systemInstruction}\n${terminology}` : systemInstruction,
+      // Enable transcription to display text logs - Just empty objects needed to enable
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      // Lets a later connection resume this session's context via a handle
+      sessionResumption: { handle: this.resumptionHandle ?? undefined },
+      // Lifts the audio session duration limit for long meetings
+      contextWindowCompression: { slidingWindow: {} },
+      // Push-to-talk or on-device VAD marks where utterances start and end
+      realtimeInputConfig: this.hasManualActivity
+        ? { automaticActivityDetection: { disabled: true } }
+        : undefined,
+    };
+  }
+
+  // Work out which language the model is currently speaking into.
+  // The output transcription is the most reliable signal; before it arrives
+  // we assume the model starts with the first language the input is due to be
+  // rendered into.
+  private resolveTargetLanguage(): Language | null {
+    if (this.turnTarget) return this.turnTarget;
+
+    const source = this.turnSource ?? detectLanguage(this.inputText, this.config.languages);
+    return source ? targetLanguagesFor(source, this.config)[0] ?? null : null;
+  }
+
+  // Follow the model through its renderings of an utterance. A sentence clearly
+  // in a language it hasn't spoken yet this turn means it moved on to that one.
+  private trackRendering(text: string): void {
+    this.outputSentence += text;
+    const detected = detectLanguage(this.outputSentence, this.config.languages);
+    if (detected && detected !== this.turnTarget && !this.renderedTargets.includes(detected)) {
+      this.turnTarget = detected;
+      this.renderedTargets.push(detected);
+    }
+    if (SENTENCE_END.test(this.outputSentence)) this.outputSentence = '';
+  }
+
+  private resetTurn(): void {
+    // Someone still holding their button has already started the next turn
+    this.turnSource = this.utterance?.source ?? null;
+    this.inputText = '';
+    this.outputSentence = '';
+    this.turnTarget = null;
+    this.renderedTargets = [];
+  }
+
+  // Play a chunk if it belongs to the listener's channel. Chunks whose language
+  // isn't known yet wait until the transcription reveals it.
+  private playTranslation(pcm: Uint8Array, target: Language | null): void {
+    if (!this.audio) return;
+    if (this.channel) {
+      if (!target) {
+        this.heldAudio.push(pcm);
+        return;
+      }
+      const held = this.heldAudio;
+      this.heldAudio = [];
+      if (target !== this.channel) return;
+      held.forEach(chunk => this.playChunk(chunk, target));
+    }
+    this.playChunk(pcm, target);
+  }
+
+  private playChunk(pcm: Uint8Array, target: Language | null): void {
+    // Send each translation to the ear of the person it is meant for.
+    // Falls back to center if the direction can't be determined yet.
+    const { splitAudio, languages } = this.config;
+    const pan = splitAudio ? panForTargetLanguage(target, languages[0], languages[1]) : 0;
+    const playback = this.audio?.play(pcm, pan);
+    if (playback) this.emit('playedAudio', { pcm, targetLanguage: target, ...playback });
+  }
+
+  private get hasManualActivity(): boolean {
+    return !!this.config.pushToTalk || this.vad !== null || this.channelVads.length > 0;
+  }
+
+  private openUtterance(source: Language | null): void {
+    this.closeUtterance();
+    this.utterance = { source };
+    if (source) this.turnSource = source;
+    // Keep the interpreter from talking over whoever has the floor
+    this.audio?.duck(true);
+    if (this.connection) this.beginUtterance(this.connection, source);
+  }
+
+  private closeUtterance(): void {
+    if (!this.utterance) return;
+    this.utterance = null;
+    this.audio?.duck(false);
+    this.connection?.sendRealtimeInput({ activityEnd: {} });
+  }
+
+  // Open an utterance on the connection, first telling the model who is
+  // about to speak if push-to-talk knows
+  private beginUtterance(connection: LiveConnection, source: Language | null): void {
+    if (source) {
+      const targets = targetLanguagesFor(source, this.config).map(languageLabel);
+      connection.sendClientContent({
+        turns: [{
+          role: 'user',
+          parts: [{ text: `The next speaker speaks ${languageLabel(source)}. Translate them into ${targets.join(', then ')}.` }]
+        }],
+        turnComplete: false
+      });
+    }
+    connection.sendRealtimeInput({ activityStart: {} });
+  }
+
+  // Record the conversation so a fresh session can be re-seeded with it
+  private rememberTranscript(text: string, isUser: boolean): void {
+    const lines = this.transcriptContext;
+    const last = lines[lines.length - 1];
+    if (last && last.isUser === isUser) {
+      last.text += text;
+    } else {
+      lines.push({ isUser, text });
+      if (lines.length > MAX_CONTEXT_LINES) lines.shift();
+    }
+  }
+
+  private seedContext(connection: LiveConnection): void {
+    const lines = this.transcriptContext;
+    if (lines.length === 0) return;
+    const history = lines
+      .map(line => `${line.isUser ? 'Speaker' : 'Interpreter'}: ${line.text.trim()}`)
+      .join('\n');
+    connection.sendClientContent({
+      turns: [{
+        role: 'user',
+        parts: [{ text: `Earlier in this conversation (context only, do not translate or repeat it):\n${history}` }]
+      }],
+      turnComplete: false
+    });
+  }
+
+  private handleMessage(msg: LiveServerMessage): void {
+    // Keep the latest handle so a new connection can pick up where this one left off
+    const resumption = msg.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) {
+      this.resumptionHandle = resumption.newHandle;
+    }
+
+    // The server is about to drop this connection
+    if (msg.goAway) {
+      console.log("Server requested disconnect, time left:", msg.goAway.timeLeft);
+      this.requestRollover();
+    }
+
+    // Reported per response
+    const usage = msg.usageMetadata;
+    if (usage) {
+      this.metrics.promptTokens += usage.promptTokenCount ?? 0;
+      this.metrics.responseTokens += usage.responseTokenCount ?? 0;
+      this.metrics.totalTokens += usage.totalTokenCount ?? 0;
+    }
+
+    // Handle Transcriptions
+    const inputText = msg.serverContent?.inputTranscription?.text;
+    if (inputText) {
+      this.inputText += inputText;
+      this.rememberTranscript(inputText, true);
+      this.emit('transcription', { text: inputText, isUser: true, language: this.turnSource });
+    }
+    const outputText = msg.serverContent?.outputTranscription?.text;
+    if (outputText) {
+      this.trackRendering(outputText);
+      this.rememberTranscript(outputText, false);
+      this.emit('transcription', { text: outputText, isUser: false, language: this.resolveTargetLanguage() });
+    }
+
+    // Handle Audio Output
+    const base64Audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (base64Audio) {
+      this.modelSpeaking = true;
+      const pcm = decode(base64Audio);
+      const targetLanguage = this.resolveTargetLanguage();
+      const seconds = pcm.byteLength / 2 / OUTPUT_SAMPLE_RATE;
+      this.startTurnMetrics();
+      this.currentTurn!.audioSeconds += seconds;
+      this.metrics.audioSecondsReceived += seconds;
+      this.emit('audio', { pcm, sampleRate: OUTPUT_SAMPLE_RATE, targetLanguage });
+      this.playTranslation(pcm, targetLanguage);
+    }
+
+    // Handle Interruption
+    if (msg.serverContent?.interrupted) {
+      this.audio?.interrupt();
+      this.heldAudio = [];
+      this.modelSpeaking = false;
+      if (this.currentTurn) this.currentTurn.interrupted = true;
+      this.emit('interrupted', undefined);
+    }
+
+    if (msg.serverContent?.generationComplete) {
+      this.emit('generationComplete', undefined);
+    }
+
+    // Start direction detection afresh for the next exchange
+    if (msg.serverContent?.turnComplete) {
+      // The language never became clear; playing it beats dropping it
+      const held = this.heldAudio;
+      this.heldAudio = [];
+      held.forEach(chunk => this.playChunk(chunk, null));
+
+      this.resetTurn();
+      this.modelSpeaking = false;
+      this.finishTurnMetrics();
+      this.emit('turnComplete', undefined);
+      this.emitMetrics();
+
+      // A pending rollover waits for the interpreter to finish its sentence
+      if (this.rolloverPending) this.performRollover();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.isStopping) return;
+
+    const attempt = this.metrics.reconnectAttempt;
+    if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+      this.cleanup();
+      this.fail("Lost connection to the AI service and could not reconnect. Please check your network.");
+      return;
+    }
+
+    this.metrics.reconnectAttempt = attempt + 1;
+    this.emitMetrics();
+    this.setState('reconnecting');
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+    console.log(`Reconnecting in ${delay}ms (attempt ${attempt + 1}/${MAX_RECONNECT_ATTEMPTS})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSession('reconnect');
+    }, delay);
+  }
+
+  // Replace the current connection with a new one before the server's
+  // session limit is reached. Mic audio is buffered while the new one opens.
+  private performRollover(): void {
+    this.rolloverPending = false;
+    this.clearTimer('rolloverGraceTimer');
+    this.clearTimer('rolloverTimer');
+
+    const previous = this.connection;
+    this.connection = null;
+    this.openSession('rollover');
+    previous?.close();
+  }
+
+  private requestRollover(): void {
+    if (this.rolloverPending || !this.connection) return;
+    this.rolloverPending = true;
+
+    if (!this.modelSpeaking) {
+      this.performRollover();
+      return;
+    }
+    // Don't cut off a translation in progress, but don't wait forever either
+    this.rolloverGraceTimer = setTimeout(() => this.performRollover(), ROLLOVER_GRACE_MS);
+  }
+
+  private async openSession(reason: SessionOpenReason): Promise<void> {
+    // Callbacks from superseded connections are ignored
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation && !this.isStopping;
+    let opened = false;
+
+    const handleLost = (message: string) => {
+      if (!isCurrent()) return;
+      this.generation++;
+      this.connection = null;
+      this.rolloverPending = false;
+      this.clearTimer('connectionTimeout');
+      this.clearTimer('rolloverTimer');
+
+      if (reason === 'initial' && !opened) {
+        // The first connection never came up, so there is nothing to resume
+        this.cleanup();
+        this.fail(message);
+      } else {
+        this.scheduleReconnect();
+      }
+    };
+
+    // Set a timeout to avoid infinite loading
+    this.clearTimer('connectionTimeout');
+    this.connectionTimeout = setTimeout(() => {
+      this.connectionTimeout = null;
+      if (!isCurrent() || opened) return;
+      console.error("Connection timed out");
+      if (reason === 'initial') {
+        this.cleanup();
+        this.fail("Connection to the server timed out. Please check your network.");
+      } else {
+        handleLost("Connection to the server timed out.");
+      }
+    }, CONNECTION_TIMEOUT_MS);
+
+    try {
+      // Establish Connection
+      const connection = await this.transport.connect(this.buildConfig(), {
+        onopen: () => {
+          if (!isCurrent()) return;
+          console.log("Session Opened");
+          opened = true;
+          this.hasConnected = true; // Mark as successfully connected
+          if (reason !== 'initial') this.metrics.reconnects++;
+          this.metrics.reconnectAttempt = 0;
+          this.emitMetrics();
+
+          this.clearTimer('connectionTimeout');
+          this.setState('connected');
+        },
+        onmessage: (msg: LiveServerMessage) => {
+          if (!isCurrent()) return;
+          this.handleMessage(msg);
+        },
+        onclose: () => {
+          if (!isCurrent()) return;
+          console.log("Session Closed");
+          // If it closed and we never marked it as connected, it's an immediate failure
+          handleLost("Connection failed immediately. Please check your network or API Key.");
+        },
+        onerror: (err) => {
+          if (!isCurrent()) return;
+          console.error("Session Error", err);
+          handleLost("Connection to AI service failed.");
+        }
+      });
+
+      if (!isCurrent()) {
+        connection.close();
+        return;
+      }
+      this.connection = connection;
+
+      // Without a resumption handle the new session starts blank
+      if (reason !== 'initial' && !this.resumptionHandle) {
+        this.seedContext(connection);
+      }
+
+      // Flush whatever was said while we were offline
+      const pending = this.pendingAudio;
+      const pendingUtterance = this.pendingUtterance;
+      this.pendingAudio = [];
+      this.pendingUtterance = null;
+      if (!this.hasManualActivity) {
+        pending.forEach(pcmBlob => connection.sendRealtimeInput({ media: pcmBlob }));
+      } else {
+        // Replay the buffered utterance, then carry on with the one still open
+        const continues = pending.length > 0 && this.utterance === pendingUtterance;
+        if (pending.length > 0) {
+          this.beginUtterance(connection, pendingUtterance?.source ?? null);
+          pending.forEach(pcmBlob => connection.sendRealtimeInput({ media: pcmBlob }));
+          if (!continues) connection.sendRealtimeInput({ activityEnd: {} });
+        }
+        if (this.utterance && !continues) this.beginUtterance(connection, this.utterance.source);
+      }
+
+      this.rolloverTimer = setTimeout(() => this.requestRollover(), SESSION_ROLLOVER_MS);
+    } catch (err: any) {
+      console.error("Session connect failed", err);
+      handleLost(err.message || "Failed to initialize connection");
+    }
+  }
+}
@@ -0,0 +1,427 @@
+import { Resampler, pcmToAudioBuffer } from '../utils/audio';
+import { CaptureFrame, createCaptureNode, loadCaptureWorklet } from '../utils/captureWorklet';
+
+// Sample rate the Live API expects for mic input
+export const INPUT_SAMPLE_RATE = 16000;
+// Sample rate of the model's audio output
+export const OUTPUT_SAMPLE_RATE = 24000;
+// Default size of each mic chunk sent to the session
+export const DEFAULT_CAPTURE_FRAME_MS = 40;
+
+// Cut-off playback fades out over this long, quick enough to feel instant without a click
+const INTERRUPT_FADE_MS = 40;
+// Level of the interpreter while a participant talks over it
+const DUCK_GAIN = 0.25;
+// How quickly ducking sets in and wears off (time constants)
+const DUCK_ATTACK_SECONDS = 0.05;
+const DUCK_RELEASE_SECONDS = 0.3;
+// Once this much audio is queued, play a little faster until the backlog is
+// down to CATCH_UP_DONE_SECONDS, so the interpreter doesn't drift ever further behind
+const CATCH_UP_BACKLOG_SECONDS = 4;
+const CATCH_UP_DONE_SECONDS = 1;
+const CATCH_UP_RATE = 1.1;
+
+// Where a chunk of model audio landed in the playback schedule
+export interface ScheduledPlayback {
+  at: number; // Epoch ms when it starts playing
+  rate: number; // Playback rate, above 1 while catching up on a backlog
+}
+
+// Local audio capture and playback for a TranslatorSession
+export interface AudioIO {
+  // Open the microphone and start delivering INPUT_SAMPLE_RATE PCM16 frames.
+  // Rejects with a user-facing message if the mic can't be opened.
+  start(onFrame: (frame: CaptureFrame) => void): Promise<void>;
+  // Queue a chunk of OUTPUT_SAMPLE_RATE PCM16 model audio; pan is -1 (left) to 1 (right).
+  // Returns when and how fast it will play, or null if it won't.
+  play(pcm: Uint8Array, pan: number): ScheduledPlayback | null;
+  // Fade out whatever is playing and drop anything queued
+  interrupt(): void;
+  // Turn the interpreter down while a participant is speaking, and back up
+  duck(ducked: boolean): void;
+  // Seconds of model audio queued but not yet played
+  readonly backlog: number;
+  // Level (RMS, 0 to 1) of the model audio playing right now
+  readonly outputLevel: number;
+  // Release the mic and audio contexts
+  stop(): void;
+}
+
+// Scheduled playback of OUTPUT_SAMPLE_RATE PCM16 model audio, chunk after chunk.
+// Keeps track of every scheduled chunk so an interruption really silences them.
+export class PcmPlayer {
+  readonly ctx: AudioContext;
+  // Taps everything played, for visualization
+  readonly analyser: AnalyserNode;
+  private output: GainNode;
+  private ducker: GainNode;
+  // Chunks queued since the last interruption play through this node, which
+  // is faded out and replaced on the next one
+  private segment: GainNode;
+  private scheduled = new Set<AudioBufferSourceNode>();
+  private catchingUp = false;
+  private levelBuffer: Float32Array<ArrayBuffer>;
+  private resampler: Resampler | undefined;
+  private nextStartTime: number;
+
+  constructor() {
+    // Output Context (24kHz for Gemini output)
+    this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+    this.nextStartTime = this.ctx.currentTime;
+
+    // Every chunk plays through one output node: segment -> ducker -> output
+    this.output = this.ctx.createGain();
+    this.output.connect(this.ctx.destination);
+    this.analyser = this.ctx.createAnalyser();
+    this.analyser.fftSize = 256;
+    this.output.connect(this.analyser);
+    this.levelBuffer = new Float32Array(this.analyser.fftSize);
+    this.ducker = this.ctx.createGain();
+    this.ducker.connect(this.output);
+    this.segment = this.createSegment();
+
+    // Some devices (Bluetooth headsets, Firefox) ignore the requested rate
+    if (this.ctx.sampleRate !== OUTPUT_SAMPLE_RATE) {
+      console.warn(`Output context runs at ${this.ctx.sampleRate}Hz, resampling from ${OUTPUT_SAMPLE_RATE}Hz`);
+      this.resampler = new Resampler(OUTPUT_SAMPLE_RATE, this.ctx.sampleRate);
+    }
+  }
+
+  // Seconds of audio queued but not yet played
+  get backlog(): number {
+    return Math.max(0, this.nextStartTime - this.ctx.currentTime);
+  }
+
+  // RMS of the last few milliseconds played, 0 to 1
+  get level(): number {
+    if (this.scheduled.size === 0) return 0;
+    this.analyser.getFloatTimeDomainData(this.levelBuffer);
+    let sumSquares = 0;
+    for (let i = 0; i < this.levelBuffer.length; i++) sumSquares += this.levelBuffer[i] * this.levelBuffer[i];
+    return Math.sqrt(sumSquares / this.levelBuffer.length);
+  }
+
+  // Queue a chunk after whatever is already scheduled; pan is -1 (left) to 1 (right).
+  // Returns where it was scheduled, so recordings can follow the real playback.
+  play(pcm: Uint8Array, pan: number = 0): ScheduledPlayback | null {
+    const ctx = this.ctx;
+    if (ctx.state === 'closed') return null;
+    let audioBuffer: AudioBuffer;
+    try {
+      audioBuffer = pcmToAudioBuffer(pcm, ctx, OUTPUT_SAMPLE_RATE, 1, this.resampler);
+    } catch (err) {
+      console.error("Audio decode error", err);
+      return null;
+    }
+    // Determine start time to avoid gaps
+    this.nextStartTime = Math.max(this.nextStartTime, ctx.currentTime);
+
+    const backlog = this.backlog;
+    if (backlog > CATCH_UP_BACKLOG_SECONDS) this.catchingUp = true;
+    else if (backlog < CATCH_UP_DONE_SECONDS) this.catchingUp = false;
+
+    const source = ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    const rate = this.catchingUp ? CATCH_UP_RATE : 1;
+    source.playbackRate.value = rate;
+
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = pan;
+
+    source.connect(panner);
+    panner.connect(this.segment);
+    source.onended = () => {
+      this.scheduled.delete(source);
+      panner.disconnect();
+    };
+    this.scheduled.add(source);
+
+    const startTime = this.nextStartTime;
+    source.start(startTime);
+    this.nextStartTime += audioBuffer.duration / rate;
+    return { at: Date.now() + (startTime - ctx.currentTime) * 1000, rate };
+  }
+
+  // Send playback to a speaker by device id ('' for the default). Browsers
+  // that can't choose keep the default one.
+  async setOutputDevice(deviceId: string): Promise<void> {
+    const ctx = this.ctx as AudioContext & { sinkId?: string; setSinkId?: (id: string) => Promise<void> };
+    if (!ctx.setSinkId || ctx.sinkId === deviceId) return;
+    try {
+      await ctx.setSinkId(deviceId);
+    } catch (err) {
+      console.warn("Could not play on the chosen speaker, using the default one", err);
+    }
+  }
+
+  // Fade out what is playing, cancel what is queued, and start a fresh segment
+  interrupt(): void {
+    const now = this.ctx.currentTime;
+    const end = now + INTERRUPT_FADE_MS / 1000;
+    const segment = this.segment;
+    segment.gain.setValueAtTime(segment.gain.value, now);
+    segment.gain.linearRampToValueAtTime(0, end);
+    this.scheduled.forEach(source => source.stop(end));
+    this.scheduled.clear();
+    setTimeout(() => segment.disconnect(), INTERRUPT_FADE_MS * 2);
+
+    this.segment = this.createSegment();
+    this.nextStartTime = now;
+    this.catchingUp = false;
+    this.resampler?.reset();
+  }
+
+  duck(ducked: boolean): void {
+    const gain = this.ducker.gain;
+    gain.cancelScheduledValues(this.ctx.currentTime);
+    gain.setTargetAtTime(ducked ? DUCK_GAIN : 1, this.ctx.currentTime, ducked ? DUCK_ATTACK_SECONDS : DUCK_RELEASE_SECONDS);
+  }
+
+  close(): void {
+    if (this.ctx.state !== 'closed') this.ctx.close();
+  }
+
+  private createSegment(): GainNode {
+    const segment = this.ctx.createGain();
+    segment.connect(this.ducker);
+    return segment;
+  }
+}
+
+export interface BrowserAudioIOOptions {
+  captureFrameMs?: number; // Mic chunk length, 20-100ms
+  inputDeviceId?: string; // Mic to open; the system default when unset
+  outputDeviceId?: string; // Speaker to play on, where the browser allows choosing
+  // One mic per interlocutor, delivered as CaptureFrame.channels: A on the left
+  // channel of the input and B on the right, or B on its own mic when
+  // secondInputDeviceId is set
+  micPerSpeaker?: boolean;
+  secondInputDeviceId?: string;
+}
+
+// Web Audio implementation: AudioWorklet capture, scheduled playback with stereo panning.
+// Survives mics and speakers coming and going: a mic that disappears is
+// reopened (on the default one if need be) and the chosen one is returned to
+// when it is plugged back in.
+export class BrowserAudioIO implements AudioIO {
+  private captureFrameMs: number;
+  private inputDeviceId: string | undefined;
+  private outputDeviceId: string | undefined;
+  private micPerSpeaker: boolean;
+  private secondInputDeviceId: string | undefined;
+  private inputCtx: AudioContext | null = null;
+  private player: PcmPlayer | null = null;
+  private streams: MediaStream[] = [];
+  private sources: MediaStreamAudioSourceNode[] = [];
+  private merger: ChannelMergerNode | null = null;
+  private processor: AudioWorkletNode | null = null;
+  private analyser: AnalyserNode | null = null;
+  private reopening: Promise<void> | null = null;
+
+  constructor(options: BrowserAudioIOOptions = {}) {
+    this.captureFrameMs = options.captureFrameMs ?? DEFAULT_CAPTURE_FRAME_MS;
+    this.inputDeviceId = options.inputDeviceId || undefined;
+    this.outputDeviceId = options.outputDeviceId || undefined;
+    this.micPerSpeaker = options.micPerSpeaker ?? false;
+    this.secondInputDeviceId = options.secondInputDeviceId || undefined;
+  }
+
+  // Analyser on the mic input, for visualization
+  get analyserNode(): AnalyserNode | null {
+    return this.analyser;
+  }
+
+  // Analyser on the interpreter's playback
+  get outputAnalyserNode(): AnalyserNode | null {
+    return this.player?.analyser ?? null;
+  }
+
+  get backlog(): number {
+    return this.player?.backlog ?? 0;
+  }
+
+  get outputLevel(): number {
+    return this.player?.level ?? 0;
+  }
+
+  async start(onFrame: (frame: CaptureFrame) => void): Promise<void> {
+    // Check if getUserMedia is supported
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+      throw new Error("Audio input is not supported in this browser or context (requires HTTPS).");
+    }
+
+    try {
+      this.streams = await this.openStreams();
+    } catch (err: any) {
+      console.error("Microphone permission error:", err);
+      throw new Error("Microphone access denied. Please allow microphone permissions in your browser settings.");
+    }
+
+    // Initialize Audio Contexts
+    this.player = new PcmPlayer();
+    if (this.outputDeviceId) await this.player.setOutputDevice(this.outputDeviceId);
+
+    // Input Context (16kHz for Gemini input)
+    const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: INPUT_SAMPLE_RATE });
+    this.inputCtx = inputCtx;
+    await loadCaptureWorklet(inputCtx);
+
+    // Some devices (Bluetooth headsets, Firefox) ignore the requested rates.
+    // The capture worklet converts mic audio itself; PcmPlayer converts model audio.
+    if (inputCtx.sampleRate !== INPUT_SAMPLE_RATE) {
+      console.warn(`Input context runs at ${inputCtx.sampleRate}Hz, resampling to ${INPUT_SAMPLE_RATE}Hz`);
+    }
+
+    // Setup Analyzer for Visuals
+    const analyser = inputCtx.createAnalyser();
+    analyser.fftSize = 256;
+    this.analyser = analyser;
+
+    // Resampling, PCM16 conversion and framing happen on the audio thread
+    const processor = createCaptureNode(inputCtx, {
+      targetSampleRate: INPUT_SAMPLE_RATE,
+      frameMs: this.captureFrameMs,
+      channels: this.micPerSpeaker ? 2 : 1
+    });
+    this.processor = processor;
+    processor.port.onmessage = (e: MessageEvent<CaptureFrame>) => onFrame(e.data);
+    processor.connect(inputCtx.destination);
+
+    this.connectStreams();
+    navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+  }
+
+  play(pcm: Uint8Array, pan: number): ScheduledPlayback | null {
+    return this.player?.play(pcm, pan) ?? null;
+  }
+
+  interrupt(): void {
+    this.player?.interrupt();
+  }
+
+  duck(ducked: boolean): void {
+    this.player?.duck(ducked);
+  }
+
+  stop(): void {
+    navigator.mediaDevices?.removeEventListener('devicechange', this.handleDeviceChange);
+    if (this.processor) {
+      this.processor.port.onmessage = null;
+      this.processor.disconnect();
+      this.processor = null;
+    }
+    this.releaseStreams();
+    this.player?.close();
+    this.player = null;
+    if (this.inputCtx && this.inputCtx.state !== 'closed') {
+      this.inputCtx.close();
+    }
+    this.inputCtx = null;
+    this.analyser = null;
+  }
+
+  private async openStreams(): Promise<MediaStream[]> {
+    const open = (deviceId: string | undefined, stereo: boolean) => navigator.mediaDevices.getUserMedia({
+      audio: {
+        // A plain id is only preferred, so a missing device falls back to the default
+        deviceId: deviceId || undefined,
+        // Browser voice processing mixes down to mono, which would merge both speakers
+        echoCancellation: !stereo,
+        noiseSuppression: !stereo,
+        autoGainControl: !stereo,
+        channelCount: stereo ? { ideal: 2 } : undefined,
+        sampleRate: INPUT_SAMPLE_RATE
+      }
+    });
+    if (!this.micPerSpeaker) return [await open(this.inputDeviceId, false)];
+    if (!this.secondInputDeviceId) return [await open(this.inputDeviceId, true)];
+    const first = await open(this.inputDeviceId, false);
+    try {
+      return [first, await open(this.secondInputDeviceId, false)];
+    } catch (err) {
+      first.getTracks().forEach(track => track.stop());
+      throw err;
+    }
+  }
+
+  // Route the open streams into the analyser and capture node. Two mics are
+  // merged into the left and right channels of one input.
+  private connectStreams(): void {
+    const inputCtx = this.inputCtx;
+    if (!inputCtx || !this.processor || !this.analyser) return;
+    this.sources = this.streams.map(stream => inputCtx.createMediaStreamSource(stream));
+    let input: AudioNode = this.sources[0];
+    if (this.sources.length > 1) {
+      const merger = inputCtx.createChannelMerger(2);
+      this.sources.forEach((source, i) => source.connect(merger, 0, i));
+      this.merger = merger;
+      input = merger;
+    } else if (this.micPerSpeaker && this.streams[0].getAudioTracks()[0]?.getSettings().channelCount === 1) {
+      console.warn("The microphone only delivers one channel; interlocutor B's channel will be silent");
+    }
+    input.connect(this.analyser); // Connect to analyzer for visuals
+    input.connect(this.processor);
+
+    this.streams.forEach(stream => stream.getAudioTracks().forEach(track => {
+      track.onended = () => this.reopenStreams();
+    }));
+  }
+
+  private releaseStreams(): void {
+    this.sources.forEach(source => source.disconnect());
+    this.sources = [];
+    this.merger?.disconnect();
+    this.merger = null;
+    this.streams.forEach(stream => stream.getTracks().forEach(track => {
+      track.onended = null;
+      track.stop();
+    }));
+    this.streams = [];
+  }
+
+  // Swap in freshly opened mics without touching the contexts, so the
+  // session carries on. If none can be opened, the next device change retries.
+  private reopenStreams(): Promise<void> {
+    if (!this.reopening) {
+      this.reopening = (async () => {
+        this.releaseStreams();
+        try {
+          const streams = await this.openStreams();
+          if (!this.inputCtx) {
+            streams.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+            return;
+          }
+          this.streams = streams;
+          this.connectStreams();
+          console.warn(`Microphone reopened on ${streams.map(stream => stream.getAudioTracks()[0]?.label || 'the default device').join(' and ')}`);
+        } catch (err) {
+          console.warn("No microphone available, waiting for one to be connected", err);
+        }
+      })().finally(() => {
+        this.reopening = null;
+      });
+    }
+    return this.reopening;
+  }
+
+  private handleDeviceChange = async (): Promise<void> => {
+    if (!this.inputCtx) return;
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const present = (kind: MediaDeviceKind, deviceId: string | undefined) =>
+      !deviceId || devices.some(device => device.kind === kind && device.deviceId === deviceId);
+
+    // Lost a mic, or a chosen one we had to do without came back
+    const wanted = [this.inputDeviceId, this.micPerSpeaker ? this.secondInputDeviceId : undefined];
+    const tracks = this.streams.map(stream => stream.getAudioTracks()[0]);
+    const isLive = tracks.length > 0 && tracks.every(track => track?.readyState === 'live');
+    const isWanted = tracks.every((track, i) => !wanted[i] || track?.getSettings().deviceId === wanted[i]);
+    if (!isLive || (!isWanted && wanted.every(deviceId => present('audioinput', deviceId)))) {
+      await this.reopenStreams();
+    }
+
+    // Play on the default speaker while the chosen one is unplugged
+    if (this.outputDeviceId && this.player) {
+      await this.player.setOutputDevice(present('audiooutput', this.outputDeviceId) ? this.outputDeviceId : '');
+    }
+  };
+}
@@ -0,0 +1,36 @@
+type Listener<T> = (payload: T) => void;
+
+// Minimal typed event emitter: Events maps each event name to its payload type
+export class TypedEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Subscribe to an event. Returns a function that removes the listener.
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let set = this.listeners[event];
+    if (!set) {
+      set = new Set();
+      this.listeners[event] = set;
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners[event]?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (err) {
+        // A failing subscriber must not break the session
+        console.error(`Listener for "${String(event)}" failed`, err);
+      }
+    });
+  }
+}
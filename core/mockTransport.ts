@@ -0,0 +1,139 @@
+import {
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveServerMessage
+} from '@google/genai';
+import { encode } from '../utils/audio';
+import { LiveConnection, LiveTransport, LiveTransportCallbacks } from './transport';
+
+// One scripted event, replayed after `delayMs` (relative to the previous step)
+export type MockScriptStep =
+  | { delayMs?: number; message: LiveServerMessage }
+  | { delayMs?: number; close: true }
+  | { delayMs?: number; error: string };
+
+export interface MockTransportOptions {
+  openDelayMs?: number;
+  // Connection attempts (0-based) that fail before opening, e.g. [1, 2] to
+  // make the first two reconnects fail
+  failAttempts?: number[];
+}
+
+// Everything the session sent over one mock connection
+export interface MockConnectionLog {
+  config: LiveConnectConfig;
+  realtimeInput: LiveSendRealtimeInputParameters[];
+  clientContent: LiveSendClientContentParameters[];
+  closed: boolean;
+}
+
+// Offline LiveTransport that replays scripted server messages.
+// Pass one script per connection attempt; the last script is reused for any
+// further attempts, so a reconnect after a scripted `close` can be exercised too.
+export class MockLiveTransport implements LiveTransport {
+  readonly connections: MockConnectionLog[] = [];
+  private scripts: MockScriptStep[][];
+  private openDelayMs: number;
+  private failAttempts: number[];
+
+  constructor(scripts: MockScriptStep[][], options: MockTransportOptions = {}) {
+    this.scripts = scripts;
+    this.openDelayMs = options.openDelayMs ?? 50;
+    this.failAttempts = options.failAttempts ?? [];
+  }
+
+  connect(config: LiveConnectConfig, callbacks: LiveTransportCallbacks): Promise<LiveConnection> {
+    const attempt = this.connections.length;
+    const log: MockConnectionLog = { config, realtimeInput: [], clientContent: [], closed: false };
+    this.connections.push(log);
+
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const connection: LiveConnection = {
+      sendRealtimeInput: params => { log.realtimeInput.push(params); },
+      sendClientContent: params => { log.clientContent.push(params); },
+      close: () => {
+        if (log.closed) return;
+        log.closed = true;
+        timers.forEach(clearTimeout);
+        callbacks.onclose();
+      }
+    };
+
+    return new Promise((resolve, reject) => {
+      setTimeout(() => {
+        if (this.failAttempts.includes(attempt)) {
+          callbacks.onerror(new Error(`Mock connection ${attempt} refused`));
+          reject(new Error(`Mock connection ${attempt} refused`));
+          return;
+        }
+
+        callbacks.onopen();
+        resolve(connection);
+
+        const script = this.scripts[Math.min(attempt, this.scripts.length - 1)] ?? [];
+        let at = 0;
+        script.forEach(step => {
+          at += step.delayMs ?? 0;
+          timers.push(setTimeout(() => {
+            if (log.closed) return;
+            if ('message' in step) {
+              callbacks.onmessage(step.message);
+            } else if ('close' in step) {
+              connection.close();
+            } else {
+              callbacks.onerror(new Error(step.error));
+            }
+          }, at));
+        });
+      }, this.openDelayMs);
+    });
+  }
+}
+
+// Helpers for building scripts
+
+export function mockMessage(fields: Partial<LiveServerMessage>): LiveServerMessage {
+  return Object.assign(new LiveServerMessage(), fields);
+}
+
+export function mockInputTranscription(text: string): LiveServerMessage {
+  return mockMessage({ serverContent: { inputTranscription: { text } } });
+}
+
+export function mockOutputTranscription(text: string): LiveServerMessage {
+  return mockMessage({ serverContent: { outputTranscription: { text } } });
+}
+
+// Model audio: a quiet 24kHz tone of the given length, standing in for speech
+export function mockAudio(durationMs: number, frequency: number = 220): LiveServerMessage {
+  const sampleRate = 24000;
+  const samples = new Int16Array(Math.round(sampleRate * durationMs / 1000));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.sin(2 * Math.PI * frequency * i / sampleRate) * 0x0FFF;
+  }
+  return mockMessage({
+    serverContent: {
+      modelTurn: {
+        role: 'model',
+        parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: encode(new Uint8Array(samples.buffer)) } }]
+      }
+    }
+  });
+}
+
+export function mockTurnComplete(): LiveServerMessage {
+  return mockMessage({ serverContent: { generationComplete: true, turnComplete: true } });
+}
+
+export function mockInterrupted(): LiveServerMessage {
+  return mockMessage({ serverContent: { interrupted: true } });
+}
+
+export function mockGoAway(timeLeft: string = '5s'): LiveServerMessage {
+  return mockMessage({ goAway: { timeLeft } });
+}
+
+export function mockResumptionHandle(handle: string): LiveServerMessage {
+  return mockMessage({ sessionResumptionUpdate: { newHandle: handle, resumable: true } });
+}
@@ -0,0 +1,87 @@
+import {
+  ApiError,
+  GoogleGenAI,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveServerMessage
+} from '@google/genai';
+
+export const DEFAULT_LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+export interface LiveTransportCallbacks {
+  onopen: () => void;
+  onmessage: (msg: LiveServerMessage) => void;
+  onerror: (err: unknown) => void;
+  onclose: () => void;
+}
+
+// An open Live connection. The SDK's Session satisfies this as-is.
+export interface LiveConnection {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  close(): void;
+}
+
+// Opens Live connections for a TranslatorSession. Swap this out to talk to a
+// relay, a recorded fixture or anything else that speaks LiveServerMessage.
+export interface LiveTransport {
+  connect(config: LiveConnectConfig, callbacks: LiveTransportCallbacks): Promise<LiveConnection>;
+}
+
+// Connects straight to the Gemini Live API with the given key, or to
+// anything that serves the same endpoints under baseUrl
+export class GeminiLiveTransport implements LiveTransport {
+  private ai: GoogleGenAI;
+  private model: string;
+
+  constructor(apiKey: string, model: string = DEFAULT_LIVE_MODEL, baseUrl?: string) {
+    this.ai = createClient(apiKey, baseUrl);
+    this.model = model;
+  }
+
+  connect(config: LiveConnectConfig, callbacks: LiveTransportCallbacks): Promise<LiveConnection> {
+    return this.ai.live.connect({ model: this.model, config, callbacks });
+  }
+}
+
+// Connects through the relay in server/, which holds the real API key. The
+// access token takes the key's place; an open relay takes any.
+export class RelayLiveTransport extends GeminiLiveTransport {
+  constructor(relayUrl: string, token: string, model: string = DEFAULT_LIVE_MODEL) {
+    super(token || 'anonymous', model, relayUrl);
+  }
+}
+
+function createClient(apiKey: string, baseUrl?: string): GoogleGenAI {
+  if (!baseUrl) return new GoogleGenAI({ apiKey });
+  // The SDK appends paths with their own leading slash
+  return new GoogleGenAI({ apiKey, httpOptions: { baseUrl: baseUrl.replace(/\/+$/, '') } });
+}
+
+interface ValidateOptions {
+  model?: string;
+  relayUrl?: string | null; // Check a relay access token instead of a key
+}
+
+// Cheap authenticated call to check a key before a session depends on it.
+// Rejects with a user-facing message.
+export async function validateApiKey(apiKey: string, { model = DEFAULT_LIVE_MODEL, relayUrl }: ValidateOptions = {}): Promise<void> {
+  try {
+    await createClient(relayUrl ? apiKey || 'anonymous' : apiKey, relayUrl ?? undefined).models.get({ model });
+  } catch (err: any) {
+    console.error("API key check failed", err);
+    if (relayUrl) {
+      if (err instanceof ApiError && err.status === 401) throw new Error("The relay did not accept this access token.");
+      if (err instanceof ApiError) throw new Error(`The Gemini API refused the relay's request (${err.status}).`);
+      throw new Error("Could not reach the relay. Please check that it is running.");
+    }
+    if (err instanceof ApiError) {
+      if (err.status === 400 || err.status === 401) throw new Error("This API key is not valid.");
+      if (err.status === 403) throw new Error("This API key is not allowed to use the Gemini API.");
+      if (err.status === 404) throw new Error("This API key has no access to the live interpreter model.");
+      if (err.status === 429) throw new Error("This API key is over its quota. Try again later.");
+    }
+    throw new Error("Could not reach the Gemini API to check the key. Please check your network.");
+  }
+}
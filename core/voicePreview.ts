@@ -0,0 +1,82 @@
+import { Modality } from '@google/genai';
+import { Language } from '../types';
+import { decode } from '../utils/audio';
+import { languageLabel } from '../utils/languageRegistry';
+import { PcmPlayer } from './audioIO';
+import { LiveConnection, LiveTransport } from './transport';
+
+// Give up on a preview the model hasn't finished by then
+const PREVIEW_TIMEOUT_MS = 15000;
+
+// Speak a short sample in a voice over its own Live connection, played like
+// session audio (on outputDeviceId if given). Calls onEnd once, with a message
+// if it failed. Returns a function that stops the preview early.
+export function playVoicePreview(
+  transport: LiveTransport,
+  voiceName: string,
+  language: Language,
+  onEnd: (error?: string) => void,
+  outputDeviceId?: string
+): () => void {
+  const player = new PcmPlayer();
+  if (outputDeviceId) player.setOutputDevice(outputDeviceId);
+  let connection: LiveConnection | null = null;
+  let finished = false;
+  let spoken = false;
+  let drainTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const finish = (error?: string) => {
+    if (finished) return;
+    finished = true;
+    clearTimeout(timeout);
+    if (drainTimer) clearTimeout(drainTimer);
+    connection?.close();
+    player.close();
+    onEnd(error);
+  };
+  const timeout = setTimeout(() => finish("The voice preview timed out."), PREVIEW_TIMEOUT_MS);
+
+  transport.connect({
+    responseModalities: [Modality.AUDIO],
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+    },
+    systemInstruction: `You are a simultaneous interpreter. Speak only ${languageLabel(language)}.`,
+  }, {
+    onopen: () => {},
+    onmessage: msg => {
+      const base64Audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+      if (base64Audio) player.play(decode(base64Audio));
+      if (msg.serverContent?.turnComplete && !spoken) {
+        spoken = true;
+        // Let the queued audio play out
+        drainTimer = setTimeout(() => finish(), player.backlog * 1000 + 200);
+      }
+    },
+    onerror: err => {
+      console.error("Voice preview failed", err);
+      finish("Could not play a preview of this voice.");
+    },
+    onclose: () => {
+      if (!spoken) finish("Could not play a preview of this voice.");
+    }
+  }).then(conn => {
+    if (finished) {
+      conn.close();
+      return;
+    }
+    connection = conn;
+    conn.sendClientContent({
+      turns: [{
+        role: 'user',
+        parts: [{ text: `In ${languageLabel(language)}, say one short sentence introducing yourself as today's interpreter.` }]
+      }],
+      turnComplete: true
+    });
+  }).catch(err => {
+    console.error("Voice preview failed", err);
+    finish(err.message || "Could not play a preview of this voice.");
+  });
+
+  return () => finish();
+}
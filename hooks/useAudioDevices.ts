@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AudioDeviceList, listAudioDevices, requestDeviceLabels } from '../utils/audioDevices';
+
+// The mics and speakers currently connected, kept up to date as they're plugged in and out
+export const useAudioDevices = () => {
+  const [devices, setDevices] = useState<AudioDeviceList>({ inputs: [], outputs: [] });
+
+  const refresh = useCallback(() => {
+    listAudioDevices()
+      .then(setDevices)
+      .catch(err => console.error("Failed to list audio devices", err));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  // Until the mic has been allowed, devices come without names
+  const hasLabels = devices.inputs.length === 0 || devices.inputs.some(device => !device.label.startsWith('Microphone '));
+
+  const revealLabels = useCallback(async () => {
+    await requestDeviceLabels();
+    refresh();
+  }, [refresh]);
+
+  return { devices, hasLabels, refresh, revealLabels };
+};
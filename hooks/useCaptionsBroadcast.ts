@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { Language, TranscriptExchange } from '../types';
+import { CAPTIONS_CHANNEL, CaptionsMessage, captionsUrl } from '../utils/captions';
+
+// Keeps captions windows in sync with the session's transcript. Returns a
+// function that opens a new captions window, e.g. to drag onto a projector.
+export const useCaptionsBroadcast = (exchanges: TranscriptExchange[], languages: Language[], isLocked: boolean) => {
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  // Nothing of the conversation is shown while the device is locked
+  const message: CaptionsMessage = { type: 'transcript', languages, exchanges: isLocked ? [] : exchanges, isLocked };
+  const latestRef = useRef(message);
+  latestRef.current = message;
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(CAPTIONS_CHANNEL);
+    channelRef.current = channel;
+    // A window that opens mid-session catches up with everything so far
+    channel.onmessage = (e: MessageEvent<CaptionsMessage>) => {
+      if (e.data.type === 'hello') channel.postMessage(latestRef.current);
+    };
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    channelRef.current?.postMessage(latestRef.current);
+  }, [exchanges, languages, isLocked]);
+
+  return useCallback(() => {
+    window.open(captionsUrl(), 'omnitranslate-captions', 'popup,width=1280,height=720');
+  }, []);
+};
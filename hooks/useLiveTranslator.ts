@@ -1,323 +1,227 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { Language, ConnectionState } from '../types';
-import { createBlob, decode, decodeAudioData } from '../utils/audio';
+import { Language, ConnectionState, EchoGuardMode, GlossaryEntry, SessionMetrics, TranslationStrategy } from '../types';
+import { BrowserAudioIO, DEFAULT_CAPTURE_FRAME_MS } from '../core/audioIO';
+import { GeminiLiveTransport, LiveTransport, RelayLiveTransport } from '../core/transport';
+import { MAX_RECONNECT_ATTEMPTS, TranslatorSession } from '../core/TranslatorSession';
+import { TranscriptStore } from '../core/TranscriptStore';
+import { SessionRecorder } from '../core/SessionRecorder';
+import { playVoicePreview } from '../core/voicePreview';
+import { AudioDevicePreferences } from '../utils/audioDevices';
 
 interface UseLiveTranslatorProps {
-  languageA: Language;
-  languageB: Language;
+  languages: Language[];
+  strategy: TranslationStrategy;
+  pivotLanguage?: Language;
   splitAudio: boolean;
-  onTranscription: (text: string, isUser: boolean) => void;
+  glossary?: GlossaryEntry[]; // Terminology compiled into the system instruction
+  voice?: string; // Interpreter voice
+  pushToTalk?: boolean;
+  voiceActivityDetection?: boolean;
+  vadSensitivity?: number; // Applied to a running session too
+  micPerSpeaker?: boolean;
+  echoGuard?: EchoGuardMode;
+  devices?: AudioDevicePreferences; // Mics and speaker to use, the defaults when unset
+  transcript: TranscriptStore; // Receives the session's transcription as exchanges
+  recorder?: SessionRecorder | null; // Receives mic and interpreter audio when recording
   apiKey: string; // New prop for manual key entry
+  relayUrl?: string | null; // Connect through the relay; apiKey is then its access token
+  captureFrameMs?: number; // Mic chunk length, 20-100ms
+  transport?: LiveTransport; // Overrides the direct Gemini connection (e.g. a mock)
 }
 
+// React adapter over TranslatorSession: mirrors its events into component state
 export const useLiveTranslator = ({
-  languageA,
-  languageB,
+  languages,
+  strategy,
+  pivotLanguage,
   splitAudio,
-  onTranscription,
-  apiKey
+  glossary,
+  voice,
+  pushToTalk,
+  voiceActivityDetection,
+  vadSensitivity,
+  micPerSpeaker,
+  echoGuard,
+  devices,
+  transcript,
+  recorder,
+  apiKey,
+  relayUrl,
+  captureFrameMs = DEFAULT_CAPTURE_FRAME_MS,
+  transport
 }: UseLiveTranslatorProps) => {
   const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  
-  // State for UI rendering
   const [isMuted, setIsMuted] = useState(false);
-  // Ref for logic inside callbacks (avoids stale closures)
-  const isMutedRef = useRef(false);
-  
   const [volume, setVolume] = useState(0);
-
-  // Audio Context and Processing Refs
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const inputContextRef = useRef<AudioContext | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const connectionTimeoutRef = useRef<any>(null);
-  
-  // Track if connection was successfully established to handle early closures
-  const isConnectedRef = useRef<boolean>(false);
-
-  // Analyzers for visualization
-  const analyzerRef = useRef<AnalyserNode | null>(null);
-
-  const cleanup = useCallback(() => {
-    isConnectedRef.current = false;
-    
-    if (connectionTimeoutRef.current) {
-      clearTimeout(connectionTimeoutRef.current);
-      connectionTimeoutRef.current = null;
-    }
-
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current = null;
-    }
-    if (sourceRef.current) {
-      sourceRef.current.disconnect();
-      sourceRef.current = null;
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [analyzerNode, setAnalyzerNode] = useState<AnalyserNode | null>(null);
+  const [outputAnalyzerNode, setOutputAnalyzerNode] = useState<AnalyserNode | null>(null);
+  const [listenChannel, setListenChannelState] = useState<Language | null>(null);
+  const [isSpeechDetected, setIsSpeechDetected] = useState(false);
+  const [isInterpreterSpeaking, setIsInterpreterSpeaking] = useState(false);
+  // Latest snapshot; kept after disconnecting so it can be exported
+  const [metrics, setMetrics] = useState<SessionMetrics | null>(null);
+
+  const sessionRef = useRef<TranslatorSession | null>(null);
+  const stopPreviewRef = useRef<(() => void) | null>(null);
+
+  // Simplified Key Logic: Use manual input OR standard env var
+  const activeKey = apiKey || process.env.API_KEY;
+
+  // The relay holds the key, so it needs none here
+  const createTransport = useCallback((): LiveTransport | null => {
+    if (transport) return transport;
+    if (relayUrl) return new RelayLiveTransport(relayUrl, apiKey);
+    return activeKey ? new GeminiLiveTransport(activeKey) : null;
+  }, [transport, relayUrl, apiKey, activeKey]);
+
+  const teardown = useCallback(() => {
+    const session = sessionRef.current;
+    if (session) {
+      session.removeAllListeners();
+      session.disconnect();
+      sessionRef.current = null;
     }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-    }
-    if (inputContextRef.current && inputContextRef.current.state !== 'closed') {
-      inputContextRef.current.close();
-      inputContextRef.current = null;
-    }
-    
     setVolume(0);
+    setAnalyzerNode(null);
+    setOutputAnalyzerNode(null);
+    setIsSpeechDetected(false);
+    setIsInterpreterSpeaking(false);
   }, []);
 
   const connect = useCallback(async () => {
+    teardown();
     setErrorMessage(null);
-    isConnectedRef.current = false;
-
-    // Reset mute state on new connection
     setIsMuted(false);
-    isMutedRef.current = false;
-
-    // Simplified Key Logic: Use manual input OR standard env var
-    const activeKey = apiKey || process.env.API_KEY;
+    setReconnectAttempt(0);
+    setListenChannelState(null);
 
-    if (!activeKey) {
+    const liveTransport = createTransport();
+    if (!liveTransport) {
       setErrorMessage("API Key is missing. Please enter your key in settings.");
       setConnectionState('error');
       return;
     }
 
-    try {
-      // Step 1: Request Microphone
-      setConnectionState('requesting_permission');
-
-      // Check if getUserMedia is supported
-      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-        throw new Error("Audio input is not supported in this browser or context (requires HTTPS).");
-      }
-
-      let stream: MediaStream;
-      try {
-        stream = await navigator.mediaDevices.getUserMedia({ 
-          audio: {
-            echoCancellation: true,
-            noiseSuppression: true,
-            sampleRate: 16000
-          } 
-        });
-        streamRef.current = stream;
-      } catch (err: any) {
-        console.error("Microphone permission error:", err);
-        setErrorMessage("Microphone access denied. Please allow microphone permissions in your browser settings.");
-        setConnectionState('error');
-        return;
+    const audio = new BrowserAudioIO({
+      captureFrameMs,
+      inputDeviceId: devices?.inputDeviceId,
+      outputDeviceId: devices?.outputDeviceId,
+      micPerSpeaker,
+      secondInputDeviceId: devices?.secondInputDeviceId
+    });
+    const session = new TranslatorSession({
+      config: { languages, strategy, pivotLanguage, splitAudio, glossary, voice, pushToTalk, voiceActivityDetection, vadSensitivity, micPerSpeaker, echoGuard },
+      transport: liveTransport,
+      audio,
+      captureFrameMs
+    });
+    sessionRef.current = session;
+
+    session.on('state', state => {
+      setConnectionState(state);
+      if (state === 'connected') {
+        setAnalyzerNode(audio.analyserNode);
+        setOutputAnalyzerNode(audio.outputAnalyserNode);
       }
+    });
+    session.on('error', message => setErrorMessage(message));
+    session.on('volume', setVolume);
+    session.on('voiceActivity', setIsSpeechDetected);
+    session.on('interpreterSpeaking', setIsInterpreterSpeaking);
+    session.on('metrics', metrics => {
+      setMetrics(metrics);
+      setReconnectAttempt(metrics.reconnectAttempt);
+    });
+
+    transcript.setLanguages(languages);
+    session.on('transcription', ({ text, isUser, language, typed }) => {
+      if (isUser && typed && language) transcript.addTyped(text, language);
+      else if (isUser) transcript.addOriginal(text, language);
+      else transcript.addTranslation(text, language);
+    });
+    session.on('generationComplete', () => transcript.completeGeneration());
+    session.on('interrupted', () => transcript.markInterrupted());
+    session.on('turnComplete', () => transcript.completeTurn());
+
+    if (recorder) {
+      session.on('inputAudio', pcm => recorder.addOriginal(pcm));
+      session.on('playedAudio', ({ pcm, targetLanguage, at, rate }) => recorder.addTranslation(pcm, targetLanguage, { at, rate }));
+      session.on('interrupted', () => recorder.interrupt());
+      session.on('turnComplete', () => recorder.endTurn());
+    }
 
-      // Step 2: Connect to API
-      setConnectionState('connecting');
-
-      // Set a timeout to avoid infinite loading
-      connectionTimeoutRef.current = setTimeout(() => {
-        if (!isConnectedRef.current) {
-          console.error("Connection timed out");
-          setErrorMessage("Connection to the server timed out. Please check your network.");
-          setConnectionState('error');
-          cleanup();
-        }
-      }, 15000); // 15 second timeout
-
-      const ai = new GoogleGenAI({ apiKey: activeKey });
-      
-      // Initialize Audio Contexts
-      // Output Context (24kHz for Gemini output)
-      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      audioContextRef.current = outputCtx;
-      nextStartTimeRef.current = outputCtx.currentTime;
-
-      // Input Context (16kHz for Gemini input)
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      inputContextRef.current = inputCtx;
-
-      // Setup Analyzer for Visuals
-      const analyzer = inputCtx.createAnalyser();
-      analyzer.fftSize = 256;
-      analyzerRef.current = analyzer;
-
-      // Define System Instruction
-      const systemInstruction = `
-        You are an expert simultaneous interpreter. 
-        Your task is to listen to a conversation between two people.
-        One person speaks ${languageA}. The other person speaks ${languageB}.
-        
-        Rules:
-        1. When you hear ${languageA}, immediately translate it verbally into ${languageB}.
-        2. When you hear ${languageB}, immediately translate it verbally into ${languageA}.
-        3. Do not engage in the conversation. Do not answer questions. Only translate.
-        4. Keep your translations concise and accurate.
-        5. If the audio is unclear, stay silent.
-      `;
-
-      // Establish Connection
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction: systemInstruction,
-          // Enable transcription to display text logs - Just empty objects needed to enable
-          inputAudioTranscription: {},
-          outputAudioTranscription: {}, 
-        },
-        callbacks: {
-          onopen: () => {
-            console.log("Session Opened");
-            isConnectedRef.current = true; // Mark as successfully connected
-            
-            if (connectionTimeoutRef.current) {
-              clearTimeout(connectionTimeoutRef.current);
-              connectionTimeoutRef.current = null;
-            }
-            setConnectionState('connected');
-
-            // Setup Input Processing
-            const source = inputCtx.createMediaStreamSource(stream);
-            sourceRef.current = source;
-            source.connect(analyzer); // Connect to analyzer for visuals
-
-            // Use ScriptProcessor for raw PCM access (standard for Gemini Live examples)
-            const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-            processorRef.current = processor;
-
-            processor.onaudioprocess = (e) => {
-              // CRITICAL FIX: Use ref here, not state, to avoid stale closure
-              if (isMutedRef.current) {
-                return; 
-              }
-
-              // Calculate volume for UI
-              const inputData = e.inputBuffer.getChannelData(0);
-              let sum = 0;
-              for(let i = 0; i < inputData.length; i++) sum += inputData[i] * inputData[i];
-              const rms = Math.sqrt(sum / inputData.length);
-              setVolume(Math.min(rms * 5, 1)); // Scale up a bit
-
-              // Send to Gemini
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then((session) => {
-                 session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
+    await session.connect();
+  }, [languages, strategy, pivotLanguage, splitAudio, glossary, voice, pushToTalk, voiceActivityDetection, vadSensitivity, micPerSpeaker, echoGuard, devices, transcript, recorder, createTransport, captureFrameMs, teardown]);
 
-            source.connect(processor);
-            processor.connect(inputCtx.destination);
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            // Handle Transcriptions
-            if (msg.serverContent?.inputTranscription?.text) {
-               onTranscription(msg.serverContent.inputTranscription.text, true);
-            }
-            if (msg.serverContent?.outputTranscription?.text) {
-               onTranscription(msg.serverContent.outputTranscription.text, false);
-            }
+  const disconnect = useCallback(() => {
+    teardown();
+    setConnectionState('disconnected');
+  }, [teardown]);
 
-            // Handle Audio Output
-            const base64Audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio && outputCtx) {
-              try {
-                // Determine start time to avoid gaps
-                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
+  const toggleMute = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.setMuted(!session.isMuted);
+    setIsMuted(session.isMuted);
+    if (session.isMuted) setIsSpeechDetected(false);
+  }, []);
 
-                const audioBuffer = await decodeAudioData(
-                  decode(base64Audio),
-                  outputCtx
-                );
+  // Tune the VAD while listening rather than reconnecting
+  useEffect(() => {
+    if (vadSensitivity !== undefined) sessionRef.current?.setVadSensitivity(vadSensitivity);
+  }, [vadSensitivity]);
 
-                const source = outputCtx.createBufferSource();
-                source.buffer = audioBuffer;
+  // Pick which language's translations are played; null plays every one
+  const setListenChannel = useCallback((language: Language | null) => {
+    sessionRef.current?.setChannel(language);
+    setListenChannelState(language);
+  }, []);
 
-                const panner = outputCtx.createStereoPanner();
-                if (splitAudio) {
-                    // Defaulting to center/both for reliability as we don't have speaker id in audio stream
-                    panner.pan.value = 0; 
-                } else {
-                    panner.pan.value = 0;
-                }
-                
-                source.connect(panner);
-                panner.connect(outputCtx.destination);
-                
-                source.start(nextStartTimeRef.current);
-                nextStartTimeRef.current += audioBuffer.duration;
+  // Push-to-talk: the speaker of `language` holds their button
+  const startTalking = useCallback((language: Language) => {
+    sessionRef.current?.startTalking(language);
+  }, []);
 
-              } catch (err) {
-                console.error("Audio decode error", err);
-              }
-            }
+  const stopTalking = useCallback(() => {
+    sessionRef.current?.stopTalking();
+  }, []);
 
-            // Handle Interruption
-            if (msg.serverContent?.interrupted) {
-               nextStartTimeRef.current = outputCtx.currentTime;
-            }
-          },
-          onclose: () => {
-            console.log("Session Closed");
-            if (!isConnectedRef.current) {
-                // If it closed and we never marked it as connected, it's an immediate failure
-                setErrorMessage("Connection failed immediately. Please check your network or API Key.");
-                setConnectionState('error');
-            } else {
-                setConnectionState('disconnected');
-            }
-            isConnectedRef.current = false;
-          },
-          onerror: (err) => {
-            console.error("Session Error", err);
-            if (connectionTimeoutRef.current) clearTimeout(connectionTimeoutRef.current);
-            setErrorMessage("Connection to AI service failed.");
-            setConnectionState('error');
-            isConnectedRef.current = false;
-          }
-        }
-      });
-      
-    } catch (err: any) {
-      console.error("Connection failed", err);
-      if (connectionTimeoutRef.current) clearTimeout(connectionTimeoutRef.current);
-      setErrorMessage(err.message || "Failed to initialize connection");
-      setConnectionState('error');
-      isConnectedRef.current = false;
-    }
-  }, [languageA, languageB, splitAudio, onTranscription, apiKey]); // Added apiKey to deps
+  // Send a typed message as if the speaker of `source` had said it
+  const sendText = useCallback((text: string, source: Language) => {
+    return sessionRef.current?.sendText(text, source) ?? false;
+  }, []);
 
-  const disconnect = useCallback(() => {
-    cleanup();
-    setConnectionState('disconnected');
-  }, [cleanup]);
+  const stopPreview = useCallback(() => {
+    stopPreviewRef.current?.();
+    stopPreviewRef.current = null;
+  }, []);
 
-  const toggleMute = useCallback(() => {
-    // Toggle the ref (immediate logic)
-    isMutedRef.current = !isMutedRef.current;
-    // Toggle the state (UI update)
-    setIsMuted(isMutedRef.current);
-    
-    // If muted, explicitly set volume to 0 so visualizer stops
-    if (isMutedRef.current) {
-      setVolume(0);
+  // Play a short sample of a voice speaking a language. Resolves when it has
+  // played (or was stopped) and rejects with a user-facing message on failure.
+  const previewVoice = useCallback((voiceName: string, language: Language) => {
+    stopPreview();
+    const liveTransport = createTransport();
+    if (!liveTransport) {
+      return Promise.reject(new Error("Enter your API key to preview voices."));
     }
-  }, []);
+    return new Promise<void>((resolve, reject) => {
+      const stop = playVoicePreview(liveTransport, voiceName, language, error => {
+        if (stopPreviewRef.current === stop) stopPreviewRef.current = null;
+        if (error) reject(new Error(error));
+        else resolve();
+      }, devices?.outputDeviceId);
+      stopPreviewRef.current = stop;
+    });
+  }, [createTransport, stopPreview, devices]);
 
   useEffect(() => {
     return () => {
-      cleanup();
+      teardown();
+      stopPreviewRef.current?.();
     }
-  }, [cleanup]);
+  }, [teardown]);
 
   return {
     connect,
@@ -327,6 +231,19 @@ export const useLiveTranslator = ({
     isMuted, // Return state for UI
     toggleMute,
     volume,
-    analyzerNode: analyzerRef.current
+    isSpeechDetected,
+    isInterpreterSpeaking,
+    listenChannel,
+    setListenChannel,
+    startTalking,
+    stopTalking,
+    sendText,
+    previewVoice,
+    stopPreview,
+    reconnectAttempt,
+    maxReconnectAttempts: MAX_RECONNECT_ATTEMPTS,
+    metrics,
+    analyzerNode,
+    outputAnalyzerNode
   };
-};
\ No newline at end of file
+};
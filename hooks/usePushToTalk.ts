@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Language } from '../types';
+
+// A press shorter than this latches talking on until the next press, for
+// clickers that can't be held down and for hands-busy speakers
+const LATCH_MAX_PRESS_MS = 300;
+
+// Presentation clickers send page or arrow keys: back for Interlocutor A,
+// forward for B. Their "blank screen" button (B or .) stops talking.
+const CLICKER_KEYS: Record<string, number> = {
+  PageUp: 0,
+  ArrowLeft: 0,
+  PageDown: 1,
+  ArrowRight: 1,
+};
+const STOP_KEYS = ['Escape', 'KeyB', 'Period'];
+
+// Keyboard shortcuts for a participant, for display
+export const talkShortcuts = (index: number): string[] => {
+  const clicker = index === 0 ? ['PgUp', '←'] : index === 1 ? ['PgDn', '→'] : [];
+  return [String(index + 1), ...clicker];
+};
+
+const speakerForKey = (event: KeyboardEvent, languages: Language[]): Language | null => {
+  const digit = /^Digit(\d)$/.exec(event.code)?.[1];
+  const index = digit ? Number(digit) - 1 : CLICKER_KEYS[event.code];
+  return index === undefined ? null : languages[index] ?? null;
+};
+
+// Keys typed into a form field are not shortcuts
+const isTyping = (event: KeyboardEvent) =>
+  event.target instanceof HTMLElement && (event.target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(event.target.tagName));
+
+interface UsePushToTalkOptions {
+  languages: Language[];
+  enabled: boolean;
+  onStart: (language: Language) => void;
+  onStop: () => void;
+}
+
+// Hold-to-talk (or tap-to-latch) state for the per-speaker talk buttons and
+// their keyboard and clicker shortcuts
+export const usePushToTalk = ({ languages, enabled, onStart, onStop }: UsePushToTalkOptions) => {
+  const [talker, setTalker] = useState<Language | null>(null);
+  const talkerRef = useRef<Language | null>(null);
+  const pressRef = useRef<{ language: Language; at: number; wasLatched: boolean } | null>(null);
+
+  const setCurrent = useCallback((language: Language | null) => {
+    talkerRef.current = language;
+    setTalker(language);
+    if (language) onStart(language);
+    else onStop();
+  }, [onStart, onStop]);
+
+  const press = useCallback((language: Language) => {
+    if (!enabled) return;
+    const wasLatched = talkerRef.current === language;
+    pressRef.current = { language, at: Date.now(), wasLatched };
+    if (!wasLatched) setCurrent(language);
+  }, [enabled, setCurrent]);
+
+  const release = useCallback((language: Language) => {
+    const pressed = pressRef.current;
+    if (!pressed || pressed.language !== language) return;
+    pressRef.current = null;
+    if (talkerRef.current !== language) return;
+    // A tap starts a latch, or ends the one already running
+    const isTap = Date.now() - pressed.at < LATCH_MAX_PRESS_MS;
+    if (isTap && !pressed.wasLatched) return;
+    setCurrent(null);
+  }, [setCurrent]);
+
+  const stop = useCallback(() => {
+    pressRef.current = null;
+    if (talkerRef.current) setCurrent(null);
+  }, [setCurrent]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || isTyping(event) || event.metaKey || event.ctrlKey || event.altKey) return;
+      if (STOP_KEYS.includes(event.code)) {
+        stop();
+        return;
+      }
+      const language = speakerForKey(event, languages);
+      if (!language) return;
+      event.preventDefault(); // Page keys would scroll the transcript
+      press(language);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      const language = speakerForKey(event, languages);
+      if (language) release(language);
+    };
+    // Letting go of a key elsewhere must not leave the mic open
+    const handleBlur = () => {
+      if (pressRef.current) release(pressRef.current.language);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [enabled, languages, press, release, stop]);
+
+  // Nobody talks into a session that has ended
+  useEffect(() => {
+    if (!enabled) stop();
+  }, [enabled, stop]);
+
+  return { talker, press, release, stop };
+};
@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { CaptionsView } from './components/CaptionsView';
+import { isCaptionsWindow } from './utils/captions';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +12,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isCaptionsWindow() ? <CaptionsView /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
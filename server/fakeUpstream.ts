@@ -0,0 +1,109 @@
+import { createServer, Server } from 'http';
+import { pathToFileURL } from 'url';
+import { WebSocket, WebSocketServer } from 'ws';
+
+export interface FakeUpstreamOptions {
+  apiKey?: string; // Key the relay must present; any key if unset
+  // Mic audio after which a scripted translation comes back
+  replyAfterSeconds?: number;
+}
+
+const OUTPUT_SAMPLE_RATE = 24000;
+
+// 300ms of quiet tone in base64 PCM16, standing in for speech
+function fakeSpeech(): string {
+  const samples = new Int16Array(OUTPUT_SAMPLE_RATE * 0.3);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.sin(2 * Math.PI * 220 * i / OUTPUT_SAMPLE_RATE) * 0x0FFF;
+  }
+  return Buffer.from(samples.buffer).toString('base64');
+}
+
+// Minimal stand-in for the Gemini Live API, for exercising the relay (and the
+// app through it) without a key or network. It completes the setup handshake,
+// answers every few seconds of audio or any text turn with a scripted
+// translation and usage metadata, and serves the models endpoint.
+export function createFakeUpstream(options: FakeUpstreamOptions = {}): Server {
+  const replyAfterSeconds = options.replyAfterSeconds ?? 3;
+  const wss = new WebSocketServer({ noServer: true });
+  const isValidKey = (key: string | null) => !options.apiKey || key === options.apiKey;
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://upstream');
+    if (!/^\/v\w+\/models/.test(url.pathname)) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (!isValidKey(req.headers['x-goog-api-key'] as string | undefined ?? null)) {
+      res.writeHead(400, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ error: { code: 400, message: 'API key not valid.', status: 'INVALID_ARGUMENT' } }));
+      return;
+    }
+    const name = url.pathname.split('/').slice(2).join('/');
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ name, displayName: 'Fake model' }));
+  });
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url ?? '/', 'http://upstream');
+    wss.handleUpgrade(req, socket, head, ws => {
+      // Like the real service, a bad key is reported after the socket opens
+      if (!isValidKey(url.searchParams.get('key'))) {
+        ws.close(1007, 'API key not valid. Please pass a valid API key.');
+        return;
+      }
+      handleSession(ws);
+    });
+  });
+
+  const handleSession = (ws: WebSocket) => {
+    let heardSeconds = 0;
+    const send = (message: object) => ws.send(Buffer.from(JSON.stringify(message)), { binary: true });
+
+    const reply = (heard: string) => {
+      send({ serverContent: { inputTranscription: { text: heard } } });
+      send({ serverContent: { outputTranscription: { text: 'This is a relayed translation.' } } });
+      send({ serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: fakeSpeech() } }] } } });
+      send({
+        serverContent: { generationComplete: true, turnComplete: true },
+        usageMetadata: { promptTokenCount: 100, responseTokenCount: 25, totalTokenCount: 125 }
+      });
+    };
+
+    ws.on('message', data => {
+      let message: any;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        ws.close(1007, 'Invalid JSON');
+        return;
+      }
+
+      if (message.setup) {
+        send({ setupComplete: {} });
+        send({ sessionResumptionUpdate: { newHandle: `fake-${Date.now()}`, resumable: true } });
+      }
+      const input = message.realtimeInput;
+      const chunks = [...(Array.isArray(input?.mediaChunks) ? input.mediaChunks : []), input?.audio];
+      for (const chunk of chunks) {
+        if (typeof chunk?.data === 'string') heardSeconds += chunk.data.length * 3 / 4 / 2 / 16000;
+      }
+      if (heardSeconds >= replyAfterSeconds) {
+        heardSeconds = 0;
+        reply('This is what was heard.');
+      }
+      const turnText = message.clientContent?.turns?.at(-1)?.parts?.map((part: any) => part.text).join(' ');
+      if (turnText && message.clientContent.turnComplete !== false) reply(turnText);
+    });
+  };
+
+  server.on('close', () => wss.clients.forEach(client => client.terminate()));
+  return server;
+}
+
+// npm run relay:fake-upstream
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  const port = Number(process.env.FAKE_UPSTREAM_PORT ?? 8788);
+  createFakeUpstream({ apiKey: process.env.GEMINI_API_KEY }).listen(port, () => {
+    console.log(`Fake Gemini Live upstream on http://localhost:${port}`);
+  });
+}
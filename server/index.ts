@@ -0,0 +1,46 @@
+import { createRelay, DEFAULT_UPSTREAM_URL } from './relay';
+import { DEFAULT_RATE_LIMITS } from './rateLimiter';
+import { UsageLog } from './usageLog';
+
+// Relay entry point (npm run relay), configured through the environment:
+//   GEMINI_API_KEY         the key the relay holds (required)
+//   RELAY_PORT             default 8787
+//   RELAY_TOKENS           "alice=token1,bob=token2"; unset runs an open relay
+//   RELAY_ALLOWED_ORIGINS  comma-separated browser origins; unset allows any
+//   RELAY_UPSTREAM_URL     e.g. http://localhost:8788 for the fake upstream
+//   RELAY_USAGE_LOG        JSON lines file; unset logs to stdout
+//   RELAY_MAX_SESSIONS, RELAY_CONNECTIONS_PER_MINUTE, RELAY_AUDIO_MINUTES_PER_DAY
+
+const env = process.env;
+const list = (value: string | undefined) => (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+const numberOr = (value: string | undefined, fallback: number) => value ? Number(value) : fallback;
+
+if (!env.GEMINI_API_KEY) {
+  console.error("GEMINI_API_KEY must be set for the relay");
+  process.exit(1);
+}
+
+const tokens = list(env.RELAY_TOKENS);
+const users = tokens.length > 0
+  ? new Map(tokens.map(entry => {
+      const [user, token] = entry.split('=');
+      return [token, user] as [string, string];
+    }))
+  : null;
+if (!users) console.warn("RELAY_TOKENS is not set: anyone who can reach the relay can use it");
+
+const port = numberOr(env.RELAY_PORT, 8787);
+const server = createRelay({
+  apiKey: env.GEMINI_API_KEY,
+  upstreamUrl: env.RELAY_UPSTREAM_URL ?? DEFAULT_UPSTREAM_URL,
+  users,
+  limits: {
+    maxConcurrentSessions: numberOr(env.RELAY_MAX_SESSIONS, DEFAULT_RATE_LIMITS.maxConcurrentSessions),
+    connectionsPerMinute: numberOr(env.RELAY_CONNECTIONS_PER_MINUTE, DEFAULT_RATE_LIMITS.connectionsPerMinute),
+    audioMinutesPerDay: numberOr(env.RELAY_AUDIO_MINUTES_PER_DAY, DEFAULT_RATE_LIMITS.audioMinutesPerDay),
+  },
+  usageLog: new UsageLog(env.RELAY_USAGE_LOG),
+  allowedOrigins: list(env.RELAY_ALLOWED_ORIGINS),
+});
+
+server.listen(port, () => console.log(`Live relay on http://localhost:${port}`));
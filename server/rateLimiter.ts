@@ -0,0 +1,80 @@
+export interface RateLimits {
+  // Live connections a user may hold at once. A rollover briefly needs two.
+  maxConcurrentSessions: number;
+  // New connections per user per minute, which also caps reconnect storms
+  connectionsPerMinute: number;
+  // Mic audio a user may send per UTC day
+  audioMinutesPerDay: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  maxConcurrentSessions: 3,
+  connectionsPerMinute: 12,
+  audioMinutesPerDay: 240,
+};
+
+interface UserUsage {
+  activeSessions: number;
+  recentConnections: number[]; // Epoch ms
+  day: string; // UTC date the audio count is for
+  audioSeconds: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Per-user limits for the relay, kept in memory
+export class RateLimiter {
+  private users = new Map<string, UserUsage>();
+
+  constructor(private limits: RateLimits = DEFAULT_RATE_LIMITS, private now: () => number = Date.now) {}
+
+  // Why the user can't open another session right now, or null if they can
+  checkConnect(user: string): string | null {
+    const usage = this.usage(user);
+    const now = this.now();
+    usage.recentConnections = usage.recentConnections.filter(at => now - at < MINUTE_MS);
+
+    if (usage.activeSessions >= this.limits.maxConcurrentSessions) {
+      return `At most ${this.limits.maxConcurrentSessions} sessions at once`;
+    }
+    if (usage.recentConnections.length >= this.limits.connectionsPerMinute) {
+      return "Too many connections, try again in a minute";
+    }
+    if (usage.audioSeconds >= this.limits.audioMinutesPerDay * 60) {
+      return "Daily audio allowance used up";
+    }
+    return null;
+  }
+
+  sessionOpened(user: string): void {
+    const usage = this.usage(user);
+    usage.activeSessions++;
+    usage.recentConnections.push(this.now());
+  }
+
+  sessionClosed(user: string): void {
+    const usage = this.usage(user);
+    usage.activeSessions = Math.max(0, usage.activeSessions - 1);
+  }
+
+  // Count audio sent upstream. False once the daily allowance is used up.
+  addAudio(user: string, seconds: number): boolean {
+    const usage = this.usage(user);
+    usage.audioSeconds += seconds;
+    return usage.audioSeconds < this.limits.audioMinutesPerDay * 60;
+  }
+
+  private usage(user: string): UserUsage {
+    const day = new Date(this.now()).toISOString().slice(0, 10);
+    let usage = this.users.get(user);
+    if (!usage) {
+      usage = { activeSessions: 0, recentConnections: [], day, audioSeconds: 0 };
+      this.users.set(user, usage);
+    }
+    if (usage.day !== day) {
+      usage.day = day;
+      usage.audioSeconds = 0;
+    }
+    return usage;
+  }
+}
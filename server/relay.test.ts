@@ -0,0 +1,217 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { createFakeUpstream } from './fakeUpstream';
+import { RelayOptions, createRelay } from './relay';
+import { UsageLog, UsageRecord } from './usageLog';
+
+const API_KEY = 'server-key';
+const LIVE_PATH = '/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent';
+const APP_ORIGIN = 'https://interpreter.example';
+
+// Keeps records in memory instead of writing them out
+class MemoryUsageLog extends UsageLog {
+  records: UsageRecord[] = [];
+
+  record(entry: UsageRecord): void {
+    this.records.push(entry);
+  }
+}
+
+const listen = (server: Server) => new Promise<string>(resolve => {
+  server.listen(0, '127.0.0.1', () => resolve(`127.0.0.1:${(server.address() as AddressInfo).port}`));
+});
+
+const close = (server: Server) => new Promise<void>(resolve => server.close(() => resolve()));
+
+// Open a Live socket through the relay: the socket once open, or the HTTP status it was refused with
+const openLive = (host: string, key: string | null, origin: string = APP_ORIGIN) =>
+  new Promise<WebSocket | number>((resolve, reject) => {
+    const query = key === null ? '' : `?key=${encodeURIComponent(key)}`;
+    const ws = new WebSocket(`ws://${host}${LIVE_PATH}${query}`, { origin });
+    ws.on('open', () => resolve(ws));
+    ws.on('unexpected-response', (_req, res) => {
+      resolve(res.statusCode ?? 0);
+      res.resume();
+    });
+    ws.on('error', reject);
+  });
+
+const expectOpen = async (host: string, key: string | null, origin?: string) => {
+  const result = await openLive(host, key, origin);
+  if (typeof result === 'number') throw new Error(`Relay refused the connection with ${result}`);
+  return result;
+};
+
+// Resolves with the next message from the relay, parsed
+const nextMessage = (ws: WebSocket) => new Promise<any>(resolve => {
+  ws.once('message', data => resolve(JSON.parse(data.toString())));
+});
+
+const closed = (ws: WebSocket) => new Promise<{ code: number; reason: string }>(resolve => {
+  if (ws.readyState === WebSocket.CLOSED) resolve({ code: 1005, reason: '' });
+  ws.once('close', (code, reason) => resolve({ code, reason: reason.toString() }));
+});
+
+// `seconds` of silent 16kHz PCM16 as the SDK sends it
+const audioMessage = (seconds: number) => JSON.stringify({
+  realtimeInput: {
+    mediaChunks: [{ mimeType: 'audio/pcm;rate=16000', data: Buffer.alloc(Math.round(seconds * 16000) * 2).toString('base64') }]
+  }
+});
+
+describe('relay against the fake upstream', () => {
+  let upstream: Server;
+  let relay: Server | null;
+  let usageLog: MemoryUsageLog;
+  let upstreamHost: string;
+  const sockets: WebSocket[] = [];
+
+  const startRelay = async (options: Partial<RelayOptions> = {}) => {
+    relay = createRelay({
+      apiKey: API_KEY,
+      upstreamUrl: `http://${upstreamHost}`,
+      users: new Map([['alice-token', 'alice'], ['bob-token', 'bob']]),
+      allowedOrigins: [APP_ORIGIN],
+      usageLog,
+      ...options
+    });
+    return listen(relay);
+  };
+
+  const connect = async (host: string, key: string | null, origin?: string) => {
+    const ws = await expectOpen(host, key, origin);
+    sockets.push(ws);
+    return ws;
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    usageLog = new MemoryUsageLog();
+    // The fake upstream only accepts the relay's own key
+    upstream = createFakeUpstream({ apiKey: API_KEY, replyAfterSeconds: 0.5 });
+    upstreamHost = await listen(upstream);
+    relay = null;
+  });
+
+  afterEach(async () => {
+    sockets.forEach(ws => ws.terminate());
+    sockets.length = 0;
+    if (relay) await close(relay);
+    await close(upstream);
+    vi.restoreAllMocks();
+  });
+
+  it('rejects a missing or unknown access token', async () => {
+    const host = await startRelay();
+    expect(await openLive(host, null)).toBe(401);
+    expect(await openLive(host, 'not-a-token')).toBe(401);
+    // The real API key is no access token either
+    expect(await openLive(host, API_KEY)).toBe(401);
+
+    const check = await fetch(`http://${host}/v1beta/models/some-model`, { headers: { 'x-goog-api-key': 'not-a-token', origin: APP_ORIGIN } });
+    expect(check.status).toBe(401);
+    const allowed = await fetch(`http://${host}/v1beta/models/some-model`, { headers: { 'x-goog-api-key': 'alice-token', origin: APP_ORIGIN } });
+    expect(allowed.status).toBe(200);
+    expect(usageLog.records).toHaveLength(0);
+  });
+
+  it('rejects browsers from other origins', async () => {
+    const host = await startRelay();
+    expect(await openLive(host, 'alice-token', 'https://elsewhere.example')).toBe(403);
+    const ws = await connect(host, 'alice-token', APP_ORIGIN);
+    expect(ws.readyState).toBe(WebSocket.OPEN);
+  });
+
+  it('relays a session and writes one usage record for it', async () => {
+    const host = await startRelay();
+    const ws = await connect(host, 'alice-token');
+    ws.send(JSON.stringify({ setup: { model: 'models/fake' } }));
+    expect(await nextMessage(ws)).toEqual({ setupComplete: {} });
+
+    // Enough audio for the fake upstream to answer with a scripted translation
+    const replies: any[] = [];
+    ws.on('message', data => replies.push(JSON.parse(data.toString())));
+    ws.send(audioMessage(0.6));
+    await vi.waitFor(() => expect(replies.some(reply => reply.usageMetadata)).toBe(true));
+
+    ws.close();
+    await closed(ws);
+    await vi.waitFor(() => expect(usageLog.records).toHaveLength(1));
+    // Both sides closing must not count the session twice
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(usageLog.records).toHaveLength(1);
+    expect(usageLog.records[0]).toMatchObject({
+      user: 'alice',
+      audioSecondsIn: 0.6,
+      audioSecondsOut: 0.3,
+      promptTokens: 100,
+      responseTokens: 25,
+      totalTokens: 125,
+      closeReason: 'client closed'
+    });
+  });
+
+  it('meters audio in either input field and skips chunks that are not audio', async () => {
+    const host = await startRelay();
+    const ws = await connect(host, 'alice-token');
+    ws.send(JSON.stringify({ setup: { model: 'models/fake' } }));
+    await nextMessage(ws);
+
+    const data = Buffer.alloc(0.4 * 16000 * 2).toString('base64');
+    ws.send(JSON.stringify({
+      realtimeInput: {
+        mediaChunks: [{ mimeType: 'audio/pcm;rate=16000', data: 12345 }, { mimeType: 'image/jpeg', data }],
+        audio: { mimeType: 'audio/pcm;rate=16000', data }
+      }
+    }));
+    ws.send(JSON.stringify({ realtimeInput: { mediaChunks: 'audio' } }));
+    ws.close();
+    await closed(ws);
+    await vi.waitFor(() => expect(usageLog.records).toHaveLength(1));
+    expect(usageLog.records[0]).toMatchObject({ audioSecondsIn: 0.4 });
+  });
+
+  it('limits new connections per user per minute', async () => {
+    const host = await startRelay({ limits: { connectionsPerMinute: 2, maxConcurrentSessions: 5 } });
+    const first = await connect(host, 'alice-token');
+    await connect(host, 'alice-token');
+    expect(await openLive(host, 'alice-token')).toBe(429);
+    // Closing a session doesn't give back the connection it used this minute
+    first.close();
+    await closed(first);
+    expect(await openLive(host, 'alice-token')).toBe(429);
+    // Other users are counted separately
+    await connect(host, 'bob-token');
+  });
+
+  it('limits concurrent sessions per user', async () => {
+    const limitedHost = await startRelay({ limits: { connectionsPerMinute: 10, maxConcurrentSessions: 1 } });
+    const only = await connect(limitedHost, 'alice-token');
+    expect(await openLive(limitedHost, 'alice-token')).toBe(429);
+    only.close();
+    await closed(only);
+    // Once the relay has seen the close, the slot is free again
+    await vi.waitFor(() => connect(limitedHost, 'alice-token'));
+  });
+
+  it('closes the session once the daily audio allowance is used up', async () => {
+    // One second of audio a day
+    const host = await startRelay({ limits: { audioMinutesPerDay: 1 / 60 } });
+    const ws = await connect(host, 'alice-token');
+    ws.send(JSON.stringify({ setup: { model: 'models/fake' } }));
+    await nextMessage(ws);
+
+    const end = closed(ws);
+    ws.send(audioMessage(0.6));
+    ws.send(audioMessage(0.6));
+    expect(await end).toEqual({ code: 1008, reason: 'Daily audio allowance used up' });
+
+    // ...and no new session is let in for the rest of the day
+    expect(await openLive(host, 'alice-token')).toBe(429);
+    await vi.waitFor(() => expect(usageLog.records).toHaveLength(1));
+    expect(usageLog.records[0]).toMatchObject({ user: 'alice', closeReason: 'Daily audio allowance used up' });
+  });
+});
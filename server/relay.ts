@@ -0,0 +1,302 @@
+import { IncomingMessage, ServerResponse, createServer, Server } from 'http';
+import { Duplex } from 'stream';
+import { randomUUID } from 'crypto';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { DEFAULT_RATE_LIMITS, RateLimiter, RateLimits } from './rateLimiter';
+import { UsageLog, UsageRecord } from './usageLog';
+
+export const DEFAULT_UPSTREAM_URL = 'https://generativelanguage.googleapis.com';
+
+// The Live endpoint as the SDK addresses it, relative to its base URL
+const LIVE_PATH = /^\/ws\/google\.ai\.generativelanguage\.v\w+\.GenerativeService\.BidiGenerateContent$/;
+// Read-only REST calls passed through, e.g. the app's API key check
+const MODELS_PATH = /^\/v\w+\/models(\/[\w.-]+)?$/;
+
+// Messages sent before the upstream connection opens
+const MAX_QUEUED_MESSAGES = 500;
+
+export interface RelayOptions {
+  apiKey: string; // The Gemini API key; never sent to browsers
+  upstreamUrl?: string; // DEFAULT_UPSTREAM_URL, or a fake upstream for testing
+  // Access token -> user name. Without it the relay is open and users are told
+  // apart by address.
+  users?: Map<string, string> | null;
+  limits?: Partial<RateLimits>;
+  usageLog?: UsageLog;
+  allowedOrigins?: string[]; // Browser origins allowed to connect; empty allows any
+}
+
+interface SessionUsage {
+  audioSecondsIn: number;
+  audioSecondsOut: number;
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+}
+
+interface MediaBlob {
+  data: string; // Base64
+  mimeType: string;
+}
+
+interface UsageMetadata {
+  promptTokenCount?: number;
+  responseTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+// Frames browsers send, told apart by their one top-level field. Only audio is
+// metered, so the rest is passed on unread.
+type ClientFrame =
+  | { setup: object }
+  | { clientContent: object }
+  | { realtimeInput: { mediaChunks?: unknown; audio?: unknown } }
+  | { toolResponse: object };
+
+// Frames from the Live API. Usage metadata can come with any of them, or alone.
+type UpstreamFrame = { usageMetadata?: UsageMetadata } & (
+  | { setupComplete: object }
+  | { serverContent: { modelTurn?: { parts?: { inlineData?: MediaBlob }[] } } }
+  | { toolCall: object }
+  | { toolCallCancellation: object }
+  | { goAway: object }
+  | { sessionResumptionUpdate: object }
+  | { usageMetadata: UsageMetadata }
+);
+
+const CLIENT_FRAME_FIELDS = ['setup', 'clientContent', 'realtimeInput', 'toolResponse'];
+const UPSTREAM_FRAME_FIELDS = ['setupComplete', 'serverContent', 'toolCall', 'toolCallCancellation', 'goAway', 'sessionResumptionUpdate', 'usageMetadata'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A frame's JSON, if it has one of the given top-level fields. Anything else
+// is still relayed, just not metered.
+function parseFrame(data: RawData, fields: string[]): Record<string, unknown> | null {
+  try {
+    const message: unknown = JSON.parse(data.toString());
+    return isRecord(message) && fields.some(field => isRecord(message[field])) ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+const parseClientFrame = (data: RawData) => parseFrame(data, CLIENT_FRAME_FIELDS) as ClientFrame | null;
+const parseUpstreamFrame = (data: RawData) => parseFrame(data, UPSTREAM_FRAME_FIELDS) as UpstreamFrame | null;
+
+// The well-formed blobs in a client field that holds one blob or a list of
+// them; browsers aren't trusted to send what the protocol says
+function mediaBlobs(value: unknown): MediaBlob[] {
+  return (Array.isArray(value) ? value : [value]).filter((blob): blob is MediaBlob =>
+    isRecord(blob) && typeof blob.data === 'string' && typeof blob.mimeType === 'string');
+}
+
+// Seconds of PCM16 audio in a blob with a mimeType like 'audio/pcm;rate=16000'
+function audioSeconds(blob: MediaBlob): number {
+  if (!blob.mimeType.startsWith('audio/pcm')) return 0;
+  const rate = Number(/rate=(\d+)/.exec(blob.mimeType)?.[1] ?? 16000);
+  return rate > 0 ? blob.data.length * 3 / 4 / 2 / rate : 0;
+}
+
+// The SDK joins its base URL and paths with a doubled slash, which would
+// otherwise parse as a protocol-relative URL
+function parseRequestUrl(req: IncomingMessage): URL {
+  return new URL((req.url ?? '/').replace(/\/{2,}/g, '/'), 'http://relay');
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string): void {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Type: text/plain\r\n\r\n${message}`);
+  socket.destroy();
+}
+
+// A relay between browsers and the Gemini Live API: it holds the API key,
+// enforces per-user rate limits and logs usage per session. Browsers use the
+// SDK as usual with the relay as base URL and their access token as API key.
+export function createRelay(options: RelayOptions): Server {
+  const upstreamUrl = new URL(options.upstreamUrl ?? DEFAULT_UPSTREAM_URL);
+  const upstreamWsUrl = new URL(upstreamUrl);
+  upstreamWsUrl.protocol = upstreamUrl.protocol === 'http:' ? 'ws:' : 'wss:';
+
+  const limiter = new RateLimiter({ ...DEFAULT_RATE_LIMITS, ...options.limits });
+  const usageLog = options.usageLog ?? new UsageLog();
+  const allowedOrigins = options.allowedOrigins ?? [];
+  const wss = new WebSocketServer({ noServer: true });
+
+  // The user a request belongs to, or null if its token isn't known
+  const identify = (req: IncomingMessage, token: string | null): string | null => {
+    if (!options.users) return req.socket.remoteAddress ?? 'unknown';
+    return token ? options.users.get(token) ?? null : null;
+  };
+
+  const isAllowedOrigin = (origin: string | undefined) =>
+    allowedOrigins.length === 0 || !origin || allowedOrigins.includes(origin);
+
+  const setCorsHeaders = (req: IncomingMessage, res: ServerResponse) => {
+    const origin = req.headers.origin;
+    if (origin && isAllowedOrigin(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Headers', 'content-type, x-goog-api-key, x-goog-api-client');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+    }
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    setCorsHeaders(req, res);
+    const url = parseRequestUrl(req);
+    const path = url.pathname;
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    if (path === '/health') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+      return;
+    }
+    if (req.method !== 'GET' || !MODELS_PATH.test(path)) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+      return;
+    }
+
+    const token = (req.headers['x-goog-api-key'] as string | undefined) ?? url.searchParams.get('key');
+    if (!isAllowedOrigin(req.headers.origin) || !identify(req, token)) {
+      res.writeHead(401, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ error: { code: 401, message: 'Unknown relay access token', status: 'UNAUTHENTICATED' } }));
+      return;
+    }
+
+    try {
+      const upstream = await fetch(new URL(path, upstreamUrl), { headers: { 'x-goog-api-key': options.apiKey } });
+      res.writeHead(upstream.status, { 'Content-Type': upstream.headers.get('content-type') ?? 'application/json' });
+      res.end(Buffer.from(await upstream.arrayBuffer()));
+    } catch (err) {
+      console.error("Upstream request failed", err);
+      res.writeHead(502, { 'Content-Type': 'text/plain' }).end('Upstream unavailable');
+    }
+  };
+
+  const handleUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = parseRequestUrl(req);
+    const path = url.pathname;
+    if (!LIVE_PATH.test(path)) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+    if (!isAllowedOrigin(req.headers.origin)) {
+      rejectUpgrade(socket, 403, 'Forbidden');
+      return;
+    }
+    const user = identify(req, url.searchParams.get('key'));
+    if (!user) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+    const refusal = limiter.checkConnect(user);
+    if (refusal) {
+      console.warn(`Refused session for ${user}: ${refusal}`);
+      rejectUpgrade(socket, 429, 'Too Many Requests');
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, client => relaySession(client, user, path));
+  };
+
+  const relaySession = (client: WebSocket, user: string, path: string) => {
+    const sessionId = randomUUID();
+    const startedAt = new Date();
+    const usage: SessionUsage = { audioSecondsIn: 0, audioSecondsOut: 0, promptTokens: 0, responseTokens: 0, totalTokens: 0 };
+    const queued: { data: RawData; isBinary: boolean }[] = [];
+    let closeReason = 'client closed';
+    let finished = false;
+    limiter.sessionOpened(user);
+
+    const target = new URL(path, upstreamWsUrl);
+    target.searchParams.set('key', options.apiKey);
+    const upstream = new WebSocket(target);
+
+    const finish = (reason: string, code: number = 1000) => {
+      if (finished) return;
+      finished = true;
+      closeReason = reason;
+      limiter.sessionClosed(user);
+      // 1005 and 1006 are reserved for reporting and can't be sent
+      const sendable = code === 1005 || code === 1006 ? 1011 : code;
+      if (client.readyState === WebSocket.OPEN) client.close(sendable, reason.slice(0, 120));
+      if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) upstream.terminate();
+
+      const endedAt = new Date();
+      const record: UsageRecord = {
+        sessionId,
+        user,
+        startedAt: startedAt.toISOString(),
+        endedAt: endedAt.toISOString(),
+        durationMs: endedAt.getTime() - startedAt.getTime(),
+        audioSecondsIn: Math.round(usage.audioSecondsIn * 10) / 10,
+        audioSecondsOut: Math.round(usage.audioSecondsOut * 10) / 10,
+        promptTokens: usage.promptTokens,
+        responseTokens: usage.responseTokens,
+        totalTokens: usage.totalTokens,
+        closeReason
+      };
+      usageLog.record(record);
+    };
+
+    client.on('message', (data, isBinary) => {
+      const frame = parseClientFrame(data);
+      if (frame && 'realtimeInput' in frame) {
+        const { mediaChunks, audio } = frame.realtimeInput;
+        const seconds = [...mediaBlobs(mediaChunks), ...mediaBlobs(audio)].reduce((sum, blob) => sum + audioSeconds(blob), 0);
+        usage.audioSecondsIn += seconds;
+        if (!limiter.addAudio(user, seconds)) {
+          finish('Daily audio allowance used up', 1008);
+          return;
+        }
+      }
+
+      if (upstream.readyState === WebSocket.OPEN) {
+        upstream.send(data, { binary: isBinary });
+      } else if (queued.length < MAX_QUEUED_MESSAGES) {
+        queued.push({ data, isBinary });
+      }
+    });
+
+    upstream.on('open', () => {
+      queued.forEach(({ data, isBinary }) => upstream.send(data, { binary: isBinary }));
+      queued.length = 0;
+    });
+
+    upstream.on('message', (data, isBinary) => {
+      const frame = parseUpstreamFrame(data);
+      if (frame && 'serverContent' in frame) {
+        for (const part of frame.serverContent.modelTurn?.parts ?? []) {
+          if (part.inlineData) usage.audioSecondsOut += audioSeconds(part.inlineData);
+        }
+      }
+      // Reported per turn
+      const metadata = frame?.usageMetadata;
+      if (metadata) {
+        usage.promptTokens += metadata.promptTokenCount ?? 0;
+        usage.responseTokens += metadata.responseTokenCount ?? 0;
+        usage.totalTokens += metadata.totalTokenCount ?? 0;
+      }
+      if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+    });
+
+    upstream.on('close', (code, reason) => finish(`upstream closed: ${reason.toString() || code}`, code));
+    upstream.on('error', err => {
+      console.error(`Upstream error for session ${sessionId}`, err.message);
+      finish('upstream error', 1011);
+    });
+    client.on('close', () => finish(closeReason));
+    client.on('error', err => {
+      console.error(`Client error for session ${sessionId}`, err.message);
+      finish('client error', 1011);
+    });
+  };
+
+  const server = createServer((req, res) => { void handleRequest(req, res); });
+  server.on('upgrade', handleUpgrade);
+  server.on('close', () => wss.clients.forEach(client => client.terminate()));
+  return server;
+}
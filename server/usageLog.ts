@@ -0,0 +1,30 @@
+import { appendFile } from 'fs/promises';
+
+// One relayed Live session
+export interface UsageRecord {
+  sessionId: string;
+  user: string;
+  startedAt: string; // ISO 8601
+  endedAt: string;
+  durationMs: number;
+  audioSecondsIn: number; // Mic audio sent upstream
+  audioSecondsOut: number; // Interpreter audio sent back
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  closeReason: string;
+}
+
+// Writes one JSON line per session, to a file or to stdout
+export class UsageLog {
+  constructor(private path?: string) {}
+
+  record(entry: UsageRecord): void {
+    const line = JSON.stringify(entry);
+    if (!this.path) {
+      console.log(line);
+      return;
+    }
+    appendFile(this.path, line + '\n').catch(err => console.error("Failed to write usage log", err));
+  }
+}
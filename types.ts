@@ -1,22 +1,116 @@
-export enum Language {
-  ITALIAN = 'Italian',
-  ENGLISH = 'English',
-  FRENCH = 'French',
-  GERMAN = 'German',
-  CHINESE = 'Mandarin Chinese'
+// BCP-47 code of a language in the registry (utils/languageRegistry.ts), e.g. 'pt-BR'.
+// Sessions stored before the registry existed hold English names instead.
+export type Language = string;
+
+export interface LanguageInfo {
+  code: Language;
+  name: string; // English name, as used in the system instruction
+  nativeName: string;
+  variant?: string; // Regional variant, e.g. 'Brazil' for pt-BR
+  voice: string; // Default prebuilt voice
+  rtl?: boolean; // Written right-to-left
+}
+
+// Which languages an utterance is rendered into when more than two are spoken:
+// 'broadcast' renders it into every other language, 'pivot' only into the pivot
+// language (or, when said in the pivot language, into all the others)
+export type TranslationStrategy = 'broadcast' | 'pivot';
+
+// How the mic is kept from sending the interpreter's own voice back when it
+// plays through speakers: 'gate' mutes the mic while the interpreter is
+// audible, 'reference' only mutes what the playback level explains as its echo
+export type EchoGuardMode = 'off' | 'gate' | 'reference';
+
+// A glossary term and how it must be rendered. Pairs apply in both directions.
+export interface GlossaryEntry {
+  id: string;
+  sourceLanguage: Language;
+  source: string;
+  targetLanguage: Language;
+  target: string;
+  doNotTranslate?: boolean; // Keep `source` verbatim in every language; the rest is ignored
 }
 
 export interface SessionConfig {
-  languageA: Language;
-  languageB: Language;
+  // Participants' languages, at least two. The first two are Interlocutors A and B.
+  languages: Language[];
+  strategy: TranslationStrategy;
+  pivotLanguage?: Language; // For 'pivot'; defaults to the first language
   splitAudio: boolean; // If true, route Lang A translation to Left, Lang B to Right
+  recordAudio?: boolean; // Keep the mic and interpreter audio with the session
+  glossary?: GlossaryEntry[]; // Entries that apply to this session's languages
+  // Interpreter voice for every translation, as a Live connection speaks with
+  // one voice. Defaults to the first language's voice.
+  voice?: string;
+  // Mic audio is only sent while a speaker holds their button, tagged with
+  // their language, instead of the model detecting speech and direction
+  pushToTalk?: boolean;
+  // Only stream speech, as judged on the device, rather than every mic frame
+  voiceActivityDetection?: boolean;
+  vadSensitivity?: number; // 0 to 1, higher picks up quieter speech
+  // Interlocutors A and B each have their own mic (or side of a stereo input),
+  // so who is speaking, and in which language, is known from the channel
+  micPerSpeaker?: boolean;
+  echoGuard?: EchoGuardMode;
 }
 
-export interface MessageLog {
-  id: string;
-  source: 'user' | 'ai';
+// One side of an exchange: what was said, or how the interpreter rendered it
+export interface TranscriptTurn {
   text: string;
-  timestamp: Date;
+  language: Language | null; // Detected language, null if unclear
+  startedAt: Date;
+  endedAt: Date; // Time of the latest fragment until the turn completes
+  typed?: boolean; // Entered as text rather than spoken
+}
+
+// An original utterance paired with its translations, one per target language
+export interface TranscriptExchange {
+  id: string;
+  original: TranscriptTurn | null;
+  translations: TranscriptTurn[]; // In the order the interpreter spoke them
+  isComplete: boolean;
+  wasInterrupted: boolean;
 }
 
-export type ConnectionState = 'disconnected' | 'requesting_permission' | 'connecting' | 'connected' | 'error';
\ No newline at end of file
+export type ConnectionState = 'disconnected' | 'requesting_permission' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+
+// Audio of a recorded session. Both tracks start at the session's startedAt.
+export interface SessionRecording {
+  original: Blob; // Mic, 16kHz WAV, including what the echo guard held back
+  translation: Blob; // Interpreter, 24kHz WAV, as it was played to this listener
+  // Where each interpreter turn sits in the translation track, ms from session start
+  translationSpans: { receivedMs: number; startMs: number; endMs: number; language?: Language | null }[];
+}
+
+// How quickly the interpreter answered one utterance
+export interface TurnMetrics {
+  at: Date; // First translated audio of the turn
+  // From the end of the input speech, when the client could tell where it ended
+  firstAudioMs: number | null; // ...to the first translated audio
+  playbackEndMs: number | null; // ...to the end of its playback
+  audioSeconds: number; // Translated audio received
+  interrupted: boolean;
+}
+
+export interface SessionMetrics {
+  reconnectAttempt: number; // Current attempt while reconnecting, 0 otherwise
+  reconnects: number; // Successful reconnects and rollovers this session
+  audioSecondsSent: number;
+  audioSecondsReceived: number;
+  playbackBacklogSeconds: number; // Translated audio queued but not yet played
+  // From the server's usageMetadata, summed over the session
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  turns: TurnMetrics[];
+}
+
+// A finished (or in-progress) session, as exported and stored
+export interface SessionTranscript {
+  config: SessionConfig;
+  startedAt: Date;
+  endedAt: Date;
+  exchanges: TranscriptExchange[];
+  recording?: SessionRecording;
+  metrics?: SessionMetrics;
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { Resampler, resample } from './audio';
+
+const sine = (frequency: number, rate: number, length: number, amplitude = 0.5) =>
+  Float32Array.from({ length }, (_, n) => amplitude * Math.sin(2 * Math.PI * frequency * n / rate));
+
+// Amplitude of the given frequency in signal[from, to), from its correlation with a sine and cosine
+const toneAmplitude = (signal: Float32Array, frequency: number, rate: number, from: number, to: number) => {
+  let re = 0;
+  let im = 0;
+  for (let n = from; n < to; n++) {
+    re += signal[n] * Math.cos(2 * Math.PI * frequency * n / rate);
+    im += signal[n] * Math.sin(2 * Math.PI * frequency * n / rate);
+  }
+  return 2 * Math.hypot(re, im) / (to - from);
+};
+
+const rms = (signal: Float32Array, from: number, to: number) => {
+  let sum = 0;
+  for (let n = from; n < to; n++) sum += signal[n] * signal[n];
+  return Math.sqrt(sum / (to - from));
+};
+
+// Largest difference from the ideal tone at the new rate, away from the start and end
+const maxError = (signal: Float32Array, expected: Float32Array, margin: number) => {
+  let max = 0;
+  for (let n = margin; n < expected.length - margin; n++) max = Math.max(max, Math.abs(signal[n] - expected[n]));
+  return max;
+};
+
+// Feed a signal through a streaming resampler in uneven chunks, then flush what it holds back
+const resampleInChunks = (input: Float32Array, fromRate: number, toRate: number, chunkSizes: number[]) => {
+  const resampler = new Resampler(fromRate, toRate);
+  const chunks: Float32Array[] = [];
+  for (let offset = 0, i = 0; offset < input.length; i++) {
+    const size = chunkSizes[i % chunkSizes.length];
+    chunks.push(resampler.process(input.subarray(offset, offset + size)).slice());
+    offset += size;
+  }
+  chunks.push(resampler.process(new Float32Array(resampler.delay + 1)).slice());
+  const out = new Float32Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+const CONVERSIONS: { from: number; to: number; inBand: number[]; aboveNyquist: number[] }[] = [
+  { from: 48000, to: 16000, inBand: [440, 1000, 3000, 6000], aboveNyquist: [9000, 12000, 20000] },
+  { from: 44100, to: 16000, inBand: [440, 1000, 3000, 6000], aboveNyquist: [9000, 12000, 20000] },
+  // Upsampling: nothing in the input is above the new Nyquist, but no images may appear either
+  { from: 24000, to: 48000, inBand: [440, 1000, 5000, 9000], aboveNyquist: [] },
+];
+
+// Half a second; the edges are skipped so the filter's ramp-in and ramp-out don't count
+const SECONDS = 0.5;
+const EDGE_SECONDS = 0.01;
+
+describe.each(CONVERSIONS)('resample $from -> $to', ({ from, to, inBand, aboveNyquist }) => {
+  const inputLength = Math.round(from * SECONDS);
+  const margin = Math.round(to * EDGE_SECONDS);
+
+  it('produces exactly the expected number of samples', () => {
+    expect(resample(new Float32Array(inputLength), from, to).length).toBe(Math.round(inputLength * to / from));
+    expect(resample(new Float32Array(1001), from, to).length).toBe(Math.round(1001 * to / from));
+  });
+
+  it.each(inBand)('keeps the frequency, amplitude and timing of a %i Hz tone', frequency => {
+    const out = resample(sine(frequency, from, inputLength), from, to);
+    const expected = sine(frequency, to, out.length);
+    expect(toneAmplitude(out, frequency, to, margin, out.length - margin)).toBeCloseTo(0.5, 2);
+    // Matching the ideal tone sample for sample also rules out phase drift and images
+    expect(maxError(out, expected, margin)).toBeLessThan(0.005);
+  });
+
+  if (aboveNyquist.length) it.each(aboveNyquist)('suppresses a %i Hz tone above the new Nyquist', frequency => {
+    const out = resample(sine(frequency, from, inputLength), from, to);
+    // At least 60 dB down from the 0.5 input
+    expect(rms(out, margin, out.length - margin)).toBeLessThan(0.5 * 0.001);
+  });
+
+  if (to > from) it('adds no images above the old Nyquist', () => {
+    const frequency = 9000;
+    const out = resample(sine(frequency, from, inputLength), from, to);
+    // The tone mirrored around the old Nyquist, where naive upsampling leaves a copy
+    const image = from - frequency;
+    expect(toneAmplitude(out, image, to, margin, out.length - margin)).toBeLessThan(0.5 * 0.001);
+  });
+
+  it('gives the same output streamed in uneven chunks as in one go', () => {
+    const input = sine(1000, from, inputLength);
+    const whole = resample(input, from, to);
+    // Chunk sizes that don't divide evenly into the rate ratio, including single samples
+    for (const chunkSizes of [[128], [441, 1, 1000, 37], [1, 2, 3]]) {
+      const streamed = resampleInChunks(input, from, to, chunkSizes);
+      expect(streamed.length).toBeGreaterThanOrEqual(whole.length);
+      expect(maxError(streamed.subarray(0, whole.length), whole, 0)).toBeLessThan(1e-5);
+    }
+  });
+
+  it('keeps output length in step with input across chunks', () => {
+    const resampler = new Resampler(from, to);
+    let inputTotal = 0;
+    let outputTotal = 0;
+    for (let i = 0; i < 200; i++) {
+      const size = 100 + (i * 37) % 400;
+      inputTotal += size;
+      outputTotal += resampler.process(new Float32Array(size)).length;
+      // Everything but the held-back delay has come out, give or take a sample
+      const ready = (inputTotal - resampler.delay) * to / from;
+      expect(Math.abs(outputTotal - ready)).toBeLessThanOrEqual(1 + to / from);
+    }
+  });
+});
+
+describe('Resampler.reset', () => {
+  it('starts over as if new', () => {
+    const input = sine(1000, 48000, 4800);
+    const fresh = new Resampler(48000, 16000).process(input).slice();
+    const reused = new Resampler(48000, 16000);
+    reused.process(sine(3000, 48000, 1234));
+    reused.reset();
+    expect(Array.from(reused.process(input))).toEqual(Array.from(fresh));
+  });
+});
@@ -9,20 +9,28 @@ export function createBlob(data: Float32Array): Blob {
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return createPcmBlob(int16.buffer);
+}
+
+// Wrap already-converted Int16 PCM (e.g. from the capture worklet) for the Gemini API
+export function createPcmBlob(pcm: ArrayBuffer, sampleRate: number = 16000): Blob {
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encode(new Uint8Array(pcm)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
 
+// Bytes per String.fromCharCode call; keeps well under engine argument limits
+const ENCODE_CHUNK_SIZE = 0x8000;
+
 // Helper to encode ArrayBuffer to Base64 string
 export function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  // Build the binary string a chunk at a time rather than one char at a time
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.byteLength; i += ENCODE_CHUNK_SIZE) {
+    chunks.push(String.fromCharCode(...bytes.subarray(i, i + ENCODE_CHUNK_SIZE)));
   }
-  return btoa(binary);
+  return btoa(chunks.join(''));
 }
 
 // Helper to decode Base64 string to Uint8Array
@@ -36,15 +44,30 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
-// Convert PCM Int16 bytes (from Gemini) to AudioBuffer (for Web Audio API)
-export async function decodeAudioData(
+// Convert PCM Int16 bytes (from Gemini) to AudioBuffer (for Web Audio API).
+// Pass a resampler (mono only) to convert to the context's actual rate instead
+// of relying on the browser's own, often linear, playback resampling.
+export function pcmToAudioBuffer(
   data: Uint8Array,
   ctx: AudioContext,
   sampleRate: number = 24000,
-  numChannels: number = 1
-): Promise<AudioBuffer> {
+  numChannels: number = 1,
+  resampler?: Resampler
+): AudioBuffer {
   const dataInt16 = new Int16Array(data.buffer);
   const frameCount = dataInt16.length / numChannels;
+
+  if (resampler && numChannels === 1) {
+    const samples = new Float32Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+      samples[i] = dataInt16[i] / 32768.0;
+    }
+    const converted = resampler.process(samples);
+    const buffer = ctx.createBuffer(1, Math.max(converted.length, 1), resampler.toRate);
+    buffer.copyToChannel(converted, 0);
+    return buffer;
+  }
+
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
   for (let channel = 0; channel < numChannels; channel++) {
@@ -54,4 +77,121 @@ export async function decodeAudioData(
     }
   }
   return buffer;
-}
\ No newline at end of file
+}
+
+// Streaming band-limited resampler (Blackman-windowed sinc).
+// Used for mic input -> 16kHz and model output 24kHz -> device rate, because
+// browsers don't always honor the sampleRate requested for an AudioContext.
+// Keep it self-contained (no module-level references): the capture worklet
+// embeds this class's source via toString().
+export class Resampler {
+  readonly fromRate: number;
+  readonly toRate: number;
+  private step: number; // input samples advanced per output sample
+  private radius: number; // kernel half-width in input samples
+  private resolution: number; // kernel table entries per input sample
+  private kernel: Float32Array;
+  private buffer: Float32Array;
+  private length: number; // valid samples in buffer
+  private position: number; // read position in buffer for the next output sample
+  private output: Float32Array;
+
+  constructor(fromRate: number, toRate: number, zeroCrossings: number = 16) {
+    this.fromRate = fromRate;
+    this.toRate = toRate;
+    this.step = fromRate / toRate;
+
+    // Cut off a little below the lower of the two Nyquist frequencies
+    const cutoff = 0.95 * Math.min(1, toRate / fromRate);
+    this.radius = Math.ceil(zeroCrossings / cutoff);
+    this.resolution = 128;
+
+    // Precompute one side of the symmetric kernel
+    const size = this.radius * this.resolution + 2;
+    this.kernel = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      const x = i / this.resolution;
+      if (x >= this.radius) break;
+      const arg = Math.PI * cutoff * x;
+      const sinc = x === 0 ? 1 : Math.sin(arg) / arg;
+      const w = x / this.radius;
+      const window = 0.42 + 0.5 * Math.cos(Math.PI * w) + 0.08 * Math.cos(2 * Math.PI * w);
+      this.kernel[i] = cutoff * sinc * window;
+    }
+
+    // Start with `radius` samples of silence so the first input sample can be centered
+    this.buffer = new Float32Array(this.radius * 2 + 4096);
+    this.length = this.radius;
+    this.position = this.radius;
+    this.output = new Float32Array(0);
+  }
+
+  // Resample the next block of a continuous signal. The returned array is a
+  // view into an internal buffer and is only valid until the next call.
+  process(input: Float32Array): Float32Array {
+    if (this.length + input.length > this.buffer.length) {
+      const grown = new Float32Array((this.length + input.length) * 2);
+      grown.set(this.buffer.subarray(0, this.length));
+      this.buffer = grown;
+    }
+    this.buffer.set(input, this.length);
+    this.length += input.length;
+
+    const maxOut = Math.ceil((this.length - this.position) / this.step) + 1;
+    if (this.output.length < maxOut) {
+      this.output = new Float32Array(maxOut * 2);
+    }
+
+    const buffer = this.buffer;
+    const kernel = this.kernel;
+    const radius = this.radius;
+    const resolution = this.resolution;
+    let position = this.position;
+    let n = 0;
+
+    while (Math.floor(position) + radius < this.length) {
+      const center = Math.floor(position);
+      let sum = 0;
+      for (let j = center - radius + 1; j <= center + radius; j++) {
+        const d = Math.abs(position - j) * resolution;
+        const k = d | 0;
+        sum += buffer[j] * (kernel[k] + (kernel[k + 1] - kernel[k]) * (d - k));
+      }
+      this.output[n++] = sum;
+      position += this.step;
+    }
+
+    // Drop input that no future output sample can reach
+    const consumed = Math.max(0, Math.floor(position) - radius + 1);
+    buffer.copyWithin(0, consumed, this.length);
+    this.length -= consumed;
+    this.position = position - consumed;
+
+    return this.output.subarray(0, n);
+  }
+
+  // Input samples held back before they can contribute to output
+  get delay(): number {
+    return this.radius;
+  }
+
+  // Forget buffered input, e.g. after playback was interrupted
+  reset(): void {
+    this.buffer.fill(0, 0, this.radius);
+    this.length = this.radius;
+    this.position = this.radius;
+  }
+}
+
+// Resample a complete signal in one go (pads the end so nothing is held back)
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return input.slice();
+  const resampler = new Resampler(fromRate, toRate);
+  const head = resampler.process(input).slice();
+  const tail = resampler.process(new Float32Array(resampler.delay + 1));
+  const expected = Math.round(input.length * toRate / fromRate);
+  const out = new Float32Array(expected);
+  out.set(head.subarray(0, expected));
+  if (head.length < expected) out.set(tail.subarray(0, expected - head.length), head.length);
+  return out;
+}
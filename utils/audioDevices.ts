@@ -0,0 +1,58 @@
+export interface AudioDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface AudioDeviceList {
+  inputs: AudioDevice[];
+  outputs: AudioDevice[];
+}
+
+// Mics and speakers picked on this device. Empty ids mean the system default.
+export interface AudioDevicePreferences {
+  inputDeviceId: string;
+  outputDeviceId: string;
+  // With one mic per speaker: interlocutor B's mic. Empty means A and B share
+  // a stereo input, on its left and right channels.
+  secondInputDeviceId: string;
+}
+
+const AUDIO_DEVICES_KEY = 'audio_devices';
+
+const DEFAULT_PREFERENCES: AudioDevicePreferences = { inputDeviceId: '', outputDeviceId: '', secondInputDeviceId: '' };
+
+export function loadAudioDevicePreferences(): AudioDevicePreferences {
+  try {
+    const stored = localStorage.getItem(AUDIO_DEVICES_KEY);
+    return stored ? { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_PREFERENCES;
+  } catch (err) {
+    console.error("Failed to load audio device preferences", err);
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+export function saveAudioDevicePreferences(preferences: AudioDevicePreferences): void {
+  localStorage.setItem(AUDIO_DEVICES_KEY, JSON.stringify(preferences));
+}
+
+// Whether audio can be sent to a chosen speaker rather than the default one
+export function canSelectOutput(): boolean {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
+
+// Browsers only reveal device names once the mic has been allowed
+export async function listAudioDevices(): Promise<AudioDeviceList> {
+  if (!navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const list = (kind: MediaDeviceKind, fallback: string) => devices
+    // The 'default' and 'communications' entries duplicate a real device
+    .filter(device => device.kind === kind && device.deviceId && device.deviceId !== 'default' && device.deviceId !== 'communications')
+    .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `${fallback} ${i + 1}` }));
+  return { inputs: list('audioinput', 'Microphone'), outputs: list('audiooutput', 'Speaker') };
+}
+
+// Ask for the mic once so the device list comes with names
+export async function requestDeviceLabels(): Promise<void> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  stream.getTracks().forEach(track => track.stop());
+}
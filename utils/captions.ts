@@ -0,0 +1,82 @@
+import { Language, TranscriptExchange } from '../types';
+
+// Connects the session window with captions windows of the same origin
+export const CAPTIONS_CHANNEL = 'omnitranslate-captions';
+// ?view=captions opens the app as a captions window
+const CAPTIONS_VIEW = 'captions';
+
+export type CaptionsMessage =
+  // From the session: the transcript so far, or nothing to show while locked
+  | { type: 'transcript'; languages: Language[]; exchanges: TranscriptExchange[]; isLocked: boolean }
+  // From a captions window that just opened, asking for the current transcript
+  | { type: 'hello' };
+
+export function isCaptionsWindow(): boolean {
+  return new URLSearchParams(window.location.search).get('view') === CAPTIONS_VIEW;
+}
+
+export function captionsUrl(): string {
+  const url = new URL(window.location.href);
+  url.search = `?view=${CAPTIONS_VIEW}`;
+  url.hash = '';
+  return url.toString();
+}
+
+export type CaptionsTheme = 'dark' | 'light' | 'contrast';
+
+export interface CaptionSettings {
+  fontSize: number; // px
+  theme: CaptionsTheme;
+  lineCount: number; // Latest translations shown
+  showOriginal: boolean; // Show what was said above each translation
+  language: Language | null; // Only translations into this language; null for all
+}
+
+export const CAPTION_FONT_SIZES = [32, 48, 64, 80, 96];
+export const MAX_CAPTION_LINES = 6;
+
+const CAPTION_SETTINGS_KEY = 'caption_settings';
+
+const DEFAULT_SETTINGS: CaptionSettings = { fontSize: 64, theme: 'dark', lineCount: 2, showOriginal: false, language: null };
+
+// Remembered per device, since each screen is set up for its own room and audience
+export function loadCaptionSettings(): CaptionSettings {
+  try {
+    const stored = localStorage.getItem(CAPTION_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch (err) {
+    console.error("Failed to load caption settings", err);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveCaptionSettings(settings: CaptionSettings): void {
+  localStorage.setItem(CAPTION_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export interface CaptionLine {
+  key: string;
+  text: string;
+  language: Language | null;
+  original: { text: string; language: Language | null } | null;
+}
+
+// The latest translations to show, oldest first
+export function latestCaptions(exchanges: TranscriptExchange[], settings: CaptionSettings): CaptionLine[] {
+  const lines: CaptionLine[] = [];
+  for (let i = exchanges.length - 1; i >= 0 && lines.length < settings.lineCount; i--) {
+    const { id, original, translations } = exchanges[i];
+    for (let j = translations.length - 1; j >= 0 && lines.length < settings.lineCount; j--) {
+      const translation = translations[j];
+      if (!translation.text.trim()) continue;
+      if (settings.language && translation.language !== settings.language) continue;
+      lines.unshift({
+        key: `${id}-${j}`,
+        text: translation.text.trim(),
+        language: translation.language,
+        original: original && { text: original.text.trim(), language: original.language }
+      });
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,138 @@
+import { Resampler } from './audio';
+
+export const CAPTURE_PROCESSOR_NAME = 'pcm-capture-processor';
+
+// Frame sizes outside this range either flood the socket or add noticeable latency
+const MIN_FRAME_MS = 20;
+const MAX_FRAME_MS = 100;
+
+export interface CaptureOptions {
+  targetSampleRate: number;
+  frameMs: number;
+  channels?: number; // Input channels captured separately, 1 (default) or 2
+}
+
+// Posted from the audio thread once per completed frame
+export interface CaptureFrame {
+  pcm: ArrayBuffer; // Int16 PCM, mono, at targetSampleRate
+  rms: number;
+  // When capturing more than one channel, each channel's own frame; pcm is then their mix
+  channels?: { pcm: ArrayBuffer; rms: number }[];
+}
+
+// Runs on the audio rendering thread. Resamples the mic input from the
+// context's actual rate to the target rate, clamps and converts it to Int16,
+// and posts fixed-size frames back to the main thread as transferable buffers.
+// Kept as plain JS source so it can be loaded from a Blob URL without a bundler step;
+// the Resampler class is shared with the main thread by embedding its source.
+const PROCESSOR_SOURCE = `
+const Resampler = ${Resampler.toString()};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameMs, channels = 1 } = options.processorOptions;
+    this.channels = channels;
+    // sampleRate is the worklet global holding the context's real rate
+    this.resamplers = [];
+    for (let c = 0; c < channels; c++) {
+      this.resamplers.push(sampleRate === targetSampleRate ? null : new Resampler(sampleRate, targetSampleRate));
+    }
+    this.frameSize = Math.round(targetSampleRate * frameMs / 1000);
+    this.startFrame();
+  }
+
+  // Track 0 is the mono mix; with several channels, each one gets a track after it
+  startFrame() {
+    const tracks = this.channels > 1 ? this.channels + 1 : 1;
+    this.frames = [];
+    this.sumSquares = [];
+    for (let t = 0; t < tracks; t++) {
+      this.frames.push(new Int16Array(this.frameSize));
+      this.sumSquares.push(0);
+    }
+    this.frameIndex = 0;
+  }
+
+  pushSample(track, value) {
+    const s = Math.max(-1, Math.min(1, value));
+    this.sumSquares[track] += s * s;
+    this.frames[track][this.frameIndex] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  }
+
+  advance() {
+    if (++this.frameIndex < this.frameSize) return;
+    const rms = track => Math.sqrt(this.sumSquares[track] / this.frameSize);
+    const pcm = this.frames[0].buffer;
+    const message = { pcm, rms: rms(0) };
+    const transfer = [pcm];
+    if (this.channels > 1) {
+      message.channels = this.frames.slice(1).map((frame, c) => ({ pcm: frame.buffer, rms: rms(c + 1) }));
+      message.channels.forEach(channel => transfer.push(channel.pcm));
+    }
+    this.port.postMessage(message, transfer);
+    this.startFrame();
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || !input[0] || input[0].length === 0) return true;
+
+    if (this.channels === 1) {
+      const samples = this.resamplers[0] ? this.resamplers[0].process(input[0]) : input[0];
+      for (let i = 0; i < samples.length; i++) {
+        this.pushSample(0, samples[i]);
+        this.advance();
+      }
+      return true;
+    }
+
+    // A mono source leaves the missing channels silent
+    const lanes = [];
+    for (let c = 0; c < this.channels; c++) {
+      const channel = input[c] || new Float32Array(input[0].length);
+      lanes.push(this.resamplers[c] ? this.resamplers[c].process(channel) : channel);
+    }
+    for (let i = 0; i < lanes[0].length; i++) {
+      let mix = 0;
+      for (let c = 0; c < this.channels; c++) {
+        this.pushSample(c + 1, lanes[c][i]);
+        mix += lanes[c][i];
+      }
+      this.pushSample(0, mix / this.channels);
+      this.advance();
+    }
+    return true;
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+// Register the capture processor on the given context
+export async function loadCaptureWorklet(ctx: AudioContext): Promise<void> {
+  if (!ctx.audioWorklet) {
+    throw new Error("Audio processing is not supported in this browser or context (requires HTTPS).");
+  }
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Create a capture node; frames arrive on node.port as CaptureFrame messages.
+// loadCaptureWorklet must have completed on the same context first.
+export function createCaptureNode(ctx: AudioContext, options: CaptureOptions): AudioWorkletNode {
+  const frameMs = Math.max(MIN_FRAME_MS, Math.min(MAX_FRAME_MS, options.frameMs));
+  const channels = options.channels ?? 1;
+  return new AudioWorkletNode(ctx, CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    // Keep separate channels apart instead of letting Web Audio mix them down
+    ...(channels > 1 && { channelCount: channels, channelCountMode: 'explicit', channelInterpretation: 'discrete' }),
+    processorOptions: { targetSampleRate: options.targetSampleRate, frameMs, channels }
+  });
+}
@@ -0,0 +1,128 @@
+import { decode, encode } from './audio';
+
+const DEVICE_LOCK_KEY = 'device_lock';
+const AUTO_LOCK_KEY = 'auto_lock_minutes';
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 12;
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+// Wrong PINs allowed before lockouts start, then 30s, 1m, 2m ... up to an hour
+const FREE_ATTEMPTS = 3;
+const LOCKOUT_BASE_MS = 30 * 1000;
+const LOCKOUT_MAX_MS = 60 * 60 * 1000;
+
+export const AUTO_LOCK_OPTIONS = [1, 2, 5, 10, 15, 30] as const;
+export type AutoLockMinutes = typeof AUTO_LOCK_OPTIONS[number];
+const DEFAULT_AUTO_LOCK_MINUTES: AutoLockMinutes = 5;
+
+// What is kept on the device: never the PIN itself
+interface StoredLock {
+  salt: string; // base64
+  hash: string; // base64 PBKDF2-SHA256 of the PIN
+  iterations: number;
+  failedAttempts: number;
+  lockedUntil: number | null; // Epoch ms
+}
+
+export interface UnlockResult {
+  ok: boolean;
+  lockedUntil: number | null; // When the next attempt is allowed, if locked out
+}
+
+function readLock(): StoredLock | null {
+  try {
+    const stored = localStorage.getItem(DEVICE_LOCK_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (err) {
+    console.error("Failed to read device lock", err);
+    return null;
+  }
+}
+
+function writeLock(lock: StoredLock): void {
+  localStorage.setItem(DEVICE_LOCK_KEY, JSON.stringify(lock));
+}
+
+async function hashPin(pin: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, HASH_BITS);
+  return new Uint8Array(bits);
+}
+
+// Compare without exiting early on the first differing byte
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+export function hasPin(): boolean {
+  return readLock() !== null;
+}
+
+// A user-facing problem with a new PIN, or null if it is acceptable
+export function validatePin(pin: string): string | null {
+  if (!/^\d+$/.test(pin)) return "Use digits only.";
+  if (pin.length < MIN_PIN_LENGTH || pin.length > MAX_PIN_LENGTH) {
+    return `Use ${MIN_PIN_LENGTH} to ${MAX_PIN_LENGTH} digits.`;
+  }
+  if (/^(\d)\1+$/.test(pin) || '0123456789'.includes(pin) || '9876543210'.includes(pin)) {
+    return "This PIN is too easy to guess.";
+  }
+  return null;
+}
+
+export async function setPin(pin: string): Promise<void> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await hashPin(pin, salt, PBKDF2_ITERATIONS);
+  writeLock({
+    salt: encode(salt),
+    hash: encode(hash),
+    iterations: PBKDF2_ITERATIONS,
+    failedAttempts: 0,
+    lockedUntil: null
+  });
+}
+
+// Epoch ms until which PIN entry is blocked, or null
+export function lockedUntil(): number | null {
+  const until = readLock()?.lockedUntil ?? null;
+  return until && until > Date.now() ? until : null;
+}
+
+// Check a PIN, counting failures towards an exponential lockout. The lockout
+// is stored, so reloading the page doesn't reset it.
+export async function verifyPin(pin: string): Promise<UnlockResult> {
+  const lock = readLock();
+  if (!lock) throw new Error("No PIN has been set up on this device.");
+  if (lock.lockedUntil && lock.lockedUntil > Date.now()) {
+    return { ok: false, lockedUntil: lock.lockedUntil };
+  }
+
+  const hash = await hashPin(pin, decode(lock.salt), lock.iterations);
+  if (sameBytes(hash, decode(lock.hash))) {
+    writeLock({ ...lock, failedAttempts: 0, lockedUntil: null });
+    return { ok: true, lockedUntil: null };
+  }
+
+  const failedAttempts = lock.failedAttempts + 1;
+  const excess = failedAttempts - FREE_ATTEMPTS;
+  const until = excess >= 0 ? Date.now() + Math.min(LOCKOUT_BASE_MS * 2 ** excess, LOCKOUT_MAX_MS) : null;
+  writeLock({ ...lock, failedAttempts, lockedUntil: until });
+  return { ok: false, lockedUntil: until };
+}
+
+export function loadAutoLockMinutes(): AutoLockMinutes {
+  const stored = Number(localStorage.getItem(AUTO_LOCK_KEY));
+  return (AUTO_LOCK_OPTIONS as readonly number[]).includes(stored) ? stored as AutoLockMinutes : DEFAULT_AUTO_LOCK_MINUTES;
+}
+
+export function saveAutoLockMinutes(minutes: AutoLockMinutes): void {
+  localStorage.setItem(AUTO_LOCK_KEY, String(minutes));
+}
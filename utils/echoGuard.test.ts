@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { EchoGuard } from './echoGuard';
+import { rmsDb } from './vad';
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 20;
+const FRAME_SAMPLES = SAMPLE_RATE * FRAME_MS / 1000;
+
+// The interpreter plays at -20 dBFS and comes back 25 dB quieter at the mic
+const PLAYBACK_DB = -20;
+const ECHO_DB = -45;
+
+// PCM16 noise whose RMS is `db` dBFS; the guard only looks at levels
+let seed = 1;
+const mic = (db: number): ArrayBuffer => {
+  const raw = Float64Array.from({ length: FRAME_SAMPLES }, () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed / 2 ** 30 - 1;
+  });
+  const rms = Math.sqrt(raw.reduce((sum, x) => sum + x * x, 0) / raw.length);
+  const gain = 10 ** (db / 20) / rms * 0x8000;
+  return Int16Array.from(raw, x => Math.round(x * gain)).buffer;
+};
+
+// Feeds `ms` of mic audio at `micDb` while playback runs at `playbackDb`
+// (null when nothing is queued), and returns which frames were let through
+const run = (guard: EchoGuard, ms: number, micDb: number, playbackDb: number | null = PLAYBACK_DB): boolean[] =>
+  Array.from({ length: ms / FRAME_MS }, () => {
+    const backlog = playbackDb === null ? 0 : 1;
+    guard.update(FRAME_MS, backlog, playbackDb === null ? 0 : 10 ** (playbackDb / 20));
+    return guard.allows(mic(micDb));
+  });
+
+// A guard that has heard two seconds of the interpreter alone
+const converged = () => {
+  const guard = new EchoGuard('reference', SAMPLE_RATE);
+  run(guard, 2000, ECHO_DB);
+  return guard;
+};
+
+describe('EchoGuard', () => {
+  it('builds frames at the level asked for', () => {
+    expect(rmsDb(new Int16Array(mic(ECHO_DB)))).toBeCloseTo(ECHO_DB, 1);
+  });
+
+  it('lets everything through when off, and nothing while the interpreter plays when gating', () => {
+    expect(run(new EchoGuard('off', SAMPLE_RATE), 200, ECHO_DB)).not.toContain(false);
+    const gate = new EchoGuard('gate', SAMPLE_RATE);
+    expect(run(gate, 200, -10)).not.toContain(true);
+    // ...until the echo tail has passed
+    const after = run(gate, 600, -30, null);
+    expect(after.indexOf(true)).toBe(400 / FRAME_MS - 1);
+  });
+
+  it('learns the echo path from the interpreter alone, never letting its echo through', () => {
+    const guard = new EchoGuard('reference', SAMPLE_RATE);
+    // The first guess is cautious: speech 5 dB under the playback is held back
+    expect(run(guard, 100, -25)).not.toContain(true);
+    expect(run(guard, 2000, ECHO_DB)).not.toContain(true);
+    // Once learned, speech well under the playback but clear of its echo is heard
+    expect(run(guard, 200, -30)).not.toContain(false);
+  });
+
+  it('lets a quieter echo path in only slowly once it has settled', () => {
+    const guard = converged();
+    // A pause in what the mic hears doesn't make the guard think the echo is gone...
+    expect(run(guard, 500, -70)).not.toContain(true);
+    expect(run(guard, 500, ECHO_DB)).not.toContain(true);
+    // ...but a turned-down speaker is learned over a few seconds
+    run(guard, 6000, ECHO_DB - 15);
+    expect(run(guard, 200, -45)).not.toContain(false);
+  });
+
+  it('lets people talk over the interpreter, holding on through quieter syllables', () => {
+    const guard = converged();
+    expect(run(guard, 500, -30)).not.toContain(false);
+    // Below the barge-in margin but above the echo: kept for the hold, then muted
+    const tail = run(guard, 500, -42);
+    expect(tail.indexOf(false)).toBe(300 / FRAME_MS);
+    expect(tail.slice(300 / FRAME_MS)).not.toContain(true);
+    // Their speech wasn't learned as echo
+    expect(run(guard, 500, ECHO_DB)).not.toContain(true);
+    expect(run(guard, 100, -30)).not.toContain(false);
+  });
+
+  it('never learns an echo louder than the playback from someone it muted', () => {
+    const guard = new EchoGuard('reference', SAMPLE_RATE);
+    // Talking over the first words of the interpreter, not loud enough to barge in
+    expect(run(guard, 1000, -15)).not.toContain(true);
+    // Had that been learned as echo, this would be held back as well
+    expect(run(guard, 100, -13)).not.toContain(false);
+  });
+
+  it('does not mute the mic against a silent reference', () => {
+    const guard = new EchoGuard('reference', SAMPLE_RATE);
+    // Audio is queued but silent, e.g. the pause at the start of a chunk
+    expect(run(guard, 1000, -58, -80)).not.toContain(false);
+    expect(run(guard, 200, -30, -80)).not.toContain(false);
+    expect(guard.isInterpreterAudible).toBe(true);
+    // Nothing was learned from the room noise
+    expect(run(guard, 100, PLAYBACK_DB + 7)).not.toContain(false);
+  });
+});
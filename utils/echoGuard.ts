@@ -0,0 +1,92 @@
+// Keeps the interpreter's own voice, played through speakers and picked up by
+// the mic, from being sent back to it as new speech
+
+import { EchoGuardMode } from '../types';
+import { rmsDb } from './vad';
+
+// The mic keeps hearing the interpreter for a moment after playback is
+// scheduled to end: output latency (long on Bluetooth) plus room reverb
+const ECHO_TAIL_MS = 400;
+// Playback quieter than this doesn't count as an echo source
+const SILENCE_DB = -60;
+// How the peak-held playback level falls off once the interpreter goes quiet
+const ECHO_DECAY_DB_PER_S = 30;
+// How much quieter the echo is at the mic than the playback, as first assumed.
+// It is then learned from what the mic hears while only the interpreter talks.
+// Starting high keeps echo out before anything is learned, and is also the
+// most ever learned, so someone muted while talking can't push it higher.
+const INITIAL_COUPLING_DB = 0;
+const MIN_COUPLING_DB = -40;
+// How quickly a lower echo path is accepted after learning a louder one...
+const COUPLING_RELAX_DB_PER_S = 3;
+// ...except for the first echo heard, so the guess above is soon let go of
+// and people can talk over the interpreter early in the session
+const SETTLE_MS = 2000;
+const SETTLE_RELAX_DB_PER_S = 15;
+// Mic audio this far above the expected echo is someone talking over the interpreter
+const BARGE_IN_MARGIN_DB = 6;
+// ...and stays let through this long, so their quieter syllables aren't chopped off
+const BARGE_IN_HOLD_MS = 300;
+
+// 'gate' mutes the mic while the interpreter is audible. 'reference' compares
+// the mic with what is being played and only mutes what can be explained as
+// its echo, so people can still talk over the interpreter.
+export class EchoGuard {
+  private mode: EchoGuardMode;
+  private sampleRate: number;
+  private tailMs = 0;
+  private holdMs = 0;
+  private echoLevelDb = SILENCE_DB;
+  private couplingDb = INITIAL_COUPLING_DB;
+  private learnedMs = 0; // Echo-only audio the coupling was learned from
+
+  constructor(mode: EchoGuardMode, sampleRate: number) {
+    this.mode = mode;
+    this.sampleRate = sampleRate;
+  }
+
+  // The interpreter is playing, or just stopped and may still be heard
+  get isInterpreterAudible(): boolean {
+    return this.tailMs > 0;
+  }
+
+  // Follow playback for one mic frame; backlog is the seconds still queued and
+  // outputLevel the RMS (0 to 1) of what is playing now
+  update(frameMs: number, backlog: number, outputLevel: number): void {
+    this.tailMs = backlog > 0 ? ECHO_TAIL_MS : Math.max(0, this.tailMs - frameMs);
+    const outputDb = 20 * Math.log10(outputLevel + 1e-6);
+    this.echoLevelDb = Math.max(outputDb, this.echoLevelDb - ECHO_DECAY_DB_PER_S * frameMs / 1000, SILENCE_DB);
+  }
+
+  // Whether a mic frame may be sent; call update() for the frame first
+  allows(pcm: ArrayBuffer): boolean {
+    if (this.mode === 'off' || !this.isInterpreterAudible) return true;
+    if (this.mode === 'gate') return false;
+    // Nothing loud enough is playing to echo, and nothing to learn from
+    if (this.echoLevelDb <= SILENCE_DB) return true;
+
+    const samples = new Int16Array(pcm);
+    const frameMs = samples.length / this.sampleRate * 1000;
+    const micDb = rmsDb(samples);
+    if (micDb > this.echoLevelDb + this.couplingDb + BARGE_IN_MARGIN_DB) {
+      this.holdMs = BARGE_IN_HOLD_MS;
+      return true;
+    }
+    if (this.holdMs > 0) {
+      this.holdMs -= frameMs;
+      return true;
+    }
+    // Only echo, as far as we can tell: learn how loud it comes back
+    const relaxDbPerS = this.learnedMs < SETTLE_MS ? SETTLE_RELAX_DB_PER_S : COUPLING_RELAX_DB_PER_S;
+    const couplingDb = Math.max(micDb - this.echoLevelDb, this.couplingDb - relaxDbPerS * frameMs / 1000);
+    this.couplingDb = Math.min(INITIAL_COUPLING_DB, Math.max(MIN_COUPLING_DB, couplingDb));
+    this.learnedMs += frameMs;
+    return false;
+  }
+
+  reset(): void {
+    this.tailMs = 0;
+    this.holdMs = 0;
+    this.echoLevelDb = SILENCE_DB;
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { Language, SessionTranscript, TranscriptExchange, TranscriptTurn } from '../types';
+import { toJson, toSrt, toWebVtt } from './export';
+
+const START = new Date('2026-03-01T10:00:00Z');
+
+// A turn from `startMs` to `endMs` after the session started
+const turn = (text: string, language: Language | null, startMs: number, endMs: number): TranscriptTurn => ({
+  text,
+  language,
+  startedAt: new Date(START.getTime() + startMs),
+  endedAt: new Date(START.getTime() + endMs)
+});
+
+const exchange = (original: TranscriptTurn | null, translations: TranscriptTurn[]): TranscriptExchange => ({
+  id: Math.random().toString(36).substring(2),
+  original,
+  translations,
+  isComplete: true,
+  wasInterrupted: false
+});
+
+const session = (exchanges: TranscriptExchange[]): SessionTranscript => ({
+  config: { languages: ['en-US', 'it-IT'], strategy: 'broadcast', splitAudio: false },
+  startedAt: START,
+  endedAt: new Date(START.getTime() + 2 * 3600000),
+  exchanges
+});
+
+const SESSION = session([
+  exchange(turn('Good morning.', 'en-US', 1500, 3250), [turn('Buongiorno.', 'it-IT', 2000, 4007)]),
+  // A rendering with no text gets no cue
+  exchange(turn('Are you there?', 'en-US', 61000, 61200), [turn('  ', 'it-IT', 61300, 61400)]),
+  // Across the hour, in a language that wasn't clear
+  exchange(turn('A <b>bold</b> --> claim & more', null, 3599999, 3605042), [])
+]);
+
+describe('toSrt', () => {
+  it('numbers cues from 1 with comma-separated milliseconds', () => {
+    expect(toSrt(SESSION)).toBe([
+      '1',
+      '00:00:01,500 --> 00:00:03,250',
+      '[English (United States)] Good morning.',
+      '',
+      '2',
+      '00:00:02,000 --> 00:00:04,007',
+      '[Italian] Buongiorno.',
+      '',
+      '3',
+      // Short turns are held on screen for a second
+      '00:01:01,000 --> 00:01:02,000',
+      '[English (United States)] Are you there?',
+      '',
+      '4',
+      '00:59:59,999 --> 01:00:05,042',
+      '[Unknown] A <b>bold</b> --> claim & more',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes nothing for a session without speech', () => {
+    expect(toSrt(session([]))).toBe('');
+    expect(toSrt(session([exchange(null, [])]))).toBe('');
+  });
+});
+
+describe('toWebVtt', () => {
+  it('uses dot-separated milliseconds, voices and escaped text', () => {
+    expect(toWebVtt(SESSION)).toBe([
+      'WEBVTT',
+      '',
+      '1',
+      '00:00:01.500 --> 00:00:03.250',
+      '<v Original (English (United States))>Good morning.',
+      '',
+      '2',
+      '00:00:02.000 --> 00:00:04.007',
+      '<v Translation (Italian)>Buongiorno.',
+      '',
+      '3',
+      '00:01:01.000 --> 00:01:02.000',
+      '<v Original (English (United States))>Are you there?',
+      '',
+      '4',
+      '00:59:59.999 --> 01:00:05.042',
+      '<v Original (Unknown)>A &lt;b&gt;bold&lt;/b&gt; --&gt; claim &amp; more',
+      ''
+    ].join('\n'));
+  });
+
+  it('orders cues by when they were spoken', () => {
+    const late = session([
+      exchange(turn('Second.', 'en-US', 5000, 6000), []),
+      exchange(turn('First.', 'en-US', 1000, 2000), [])
+    ]);
+    expect(toWebVtt(late).split('\n').filter(line => line.startsWith('<v'))).toEqual([
+      '<v Original (English (United States))>First.',
+      '<v Original (English (United States))>Second.'
+    ]);
+  });
+
+  it('is only the header for a session without speech', () => {
+    expect(toWebVtt(session([]))).toBe('WEBVTT\n');
+  });
+});
+
+describe('toJson', () => {
+  it('keeps exchanges with no translation and times turns from the start', () => {
+    const data = JSON.parse(toJson(SESSION));
+    expect(data.durationMs).toBe(2 * 3600000);
+    expect(data.exchanges).toHaveLength(3);
+    expect(data.exchanges[0].translations[0]).toMatchObject({ text: 'Buongiorno.', language: 'it-IT', startMs: 2000, endMs: 4007 });
+    expect(data.exchanges[2].translations).toEqual([]);
+  });
+});
@@ -0,0 +1,194 @@
+import { SessionTranscript, TranscriptTurn } from '../types';
+import { languageLabel } from './languageRegistry';
+import { describeMetrics } from './metrics';
+
+export type ExportFormat = 'srt' | 'vtt' | 'json' | 'md';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'srt', label: 'SubRip subtitles (.srt)', extension: 'srt', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT subtitles (.vtt)', extension: 'vtt', mimeType: 'text/vtt' },
+  { format: 'json', label: 'Structured data (.json)', extension: 'json', mimeType: 'application/json' },
+  { format: 'md', label: 'Bilingual minutes (.md)', extension: 'md', mimeType: 'text/markdown' },
+];
+
+// Subtitles shorter than this flash by too quickly to read
+const MIN_CUE_MS = 1000;
+
+interface Cue {
+  startMs: number;
+  endMs: number;
+  role: 'Original' | 'Translation';
+  turn: TranscriptTurn;
+}
+
+// Every turn as a cue, timed relative to session start and in spoken order
+function collectCues(session: SessionTranscript): Cue[] {
+  const origin = session.startedAt.getTime();
+  const cues: Cue[] = [];
+  const add = (turn: TranscriptTurn | null, role: Cue['role']) => {
+    if (!turn || !turn.text.trim()) return;
+    const startMs = Math.max(0, turn.startedAt.getTime() - origin);
+    const endMs = Math.max(turn.endedAt.getTime() - origin, startMs + MIN_CUE_MS);
+    cues.push({ startMs, endMs, role, turn });
+  };
+  session.exchanges.forEach(exchange => {
+    add(exchange.original, 'Original');
+    exchange.translations.forEach(translation => add(translation, 'Translation'));
+  });
+  return cues.sort((a, b) => a.startMs - b.startMs);
+}
+
+// HH:MM:SS plus milliseconds after the given separator
+function formatTimestamp(ms: number, separator: string): string {
+  const pad = (n: number, width: number = 2) => String(n).padStart(width, '0');
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor(ms / 60000) % 60;
+  const seconds = Math.floor(ms / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(Math.floor(ms % 1000), 3)}`;
+}
+
+function formatDuration(ms: number): string {
+  return formatTimestamp(ms, '.').split('.')[0];
+}
+
+function turnLanguage(turn: TranscriptTurn): string {
+  return turn.language ? languageLabel(turn.language) : 'Unknown';
+}
+
+export function toSrt(session: SessionTranscript): string {
+  return collectCues(session)
+    .map((cue, i) => [
+      String(i + 1),
+      `${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}`,
+      `[${turnLanguage(cue.turn)}] ${cue.turn.text.trim()}`,
+      ''
+    ].join('\n'))
+    .join('\n');
+}
+
+export function toWebVtt(session: SessionTranscript): string {
+  // Cue text must not contain "-->" or unescaped markup
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const cues = collectCues(session).map((cue, i) => [
+    `${i + 1}`,
+    `${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}`,
+    `<v ${cue.role} (${turnLanguage(cue.turn)})>${escape(cue.turn.text.trim())}`,
+    ''
+  ].join('\n'));
+  return ['WEBVTT', '', ...cues].join('\n');
+}
+
+export function toJson(session: SessionTranscript): string {
+  const origin = session.startedAt.getTime();
+  const turn = (t: TranscriptTurn | null) => t && {
+    text: t.text.trim(),
+    language: t.language,
+    typed: t.typed || undefined,
+    startedAt: t.startedAt.toISOString(),
+    endedAt: t.endedAt.toISOString(),
+    startMs: t.startedAt.getTime() - origin,
+    endMs: t.endedAt.getTime() - origin
+  };
+
+  return JSON.stringify({
+    format: 'omnitranslate-session',
+    version: 2,
+    config: session.config,
+    languages: session.config.languages,
+    startedAt: session.startedAt.toISOString(),
+    endedAt: session.endedAt.toISOString(),
+    durationMs: session.endedAt.getTime() - origin,
+    exchanges: session.exchanges.map(exchange => ({
+      id: exchange.id,
+      original: turn(exchange.original),
+      translations: exchange.translations.map(turn),
+      isComplete: exchange.isComplete,
+      wasInterrupted: exchange.wasInterrupted
+    })),
+    metrics: session.metrics && {
+      ...session.metrics,
+      turns: session.metrics.turns.map(t => ({ ...t, at: t.at.toISOString(), atMs: t.at.getTime() - origin }))
+    }
+  }, null, 2);
+}
+
+export function toMarkdown(session: SessionTranscript): string {
+  const origin = session.startedAt.getTime();
+  const lines = [
+    `# Meeting minutes — ${session.startedAt.toLocaleDateString()}`,
+    '',
+    `- **Started:** ${session.startedAt.toLocaleString()}`,
+    `- **Duration:** ${formatDuration(session.endedAt.getTime() - origin)}`,
+    `- **Languages:** ${session.config.languages.map(languageLabel).join(' ↔ ')}`,
+    '',
+    '---',
+    ''
+  ];
+
+  session.exchanges.forEach(exchange => {
+    const { original, translations } = exchange;
+    const first = original ?? translations[0];
+    if (!first) return;
+
+    const time = formatDuration(Math.max(0, first.startedAt.getTime() - origin));
+    if (original) {
+      lines.push(`**[${time}] ${turnLanguage(original)}${original.typed ? ', typed' : ''}:** ${original.text.trim()}`);
+      lines.push('');
+    }
+    translations.forEach((translation, i) => {
+      const prefix = original || i > 0 ? '' : `**[${time}]** `;
+      lines.push(`> ${prefix}*${turnLanguage(translation)}:* ${translation.text.trim()}`);
+      lines.push('');
+    });
+    if (exchange.wasInterrupted) {
+      lines.push('_(translation interrupted)_');
+      lines.push('');
+    }
+  });
+
+  if (session.metrics) {
+    lines.push('---', '', '## Diagnostics', '');
+    describeMetrics(session.metrics).forEach(line => lines.push(`- ${line}`));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+export function exportSession(session: SessionTranscript, format: ExportFormat): string {
+  switch (format) {
+    case 'srt': return toSrt(session);
+    case 'vtt': return toWebVtt(session);
+    case 'json': return toJson(session);
+    case 'md': return toMarkdown(session);
+  }
+}
+
+function fileStamp(session: SessionTranscript): string {
+  return session.startedAt.toISOString().slice(0, 16).replace(/[:T]/g, '-');
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously; keep the URL alive briefly
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Trigger a browser download of the session in the given format
+export function downloadSession(session: SessionTranscript, format: ExportFormat): void {
+  const { extension, mimeType } = EXPORT_FORMATS.find(f => f.format === format)!;
+  const blob = new Blob([exportSession(session, format)], { type: `${mimeType};charset=utf-8` });
+  downloadBlob(blob, `omnitranslate-${fileStamp(session)}.${extension}`);
+}
+
+// Download one track of a recorded session as WAV
+export function downloadRecording(session: SessionTranscript, track: 'original' | 'translation'): void {
+  if (!session.recording) return;
+  downloadBlob(session.recording[track], `omnitranslate-${fileStamp(session)}-${track}.wav`);
+}
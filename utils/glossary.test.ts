@@ -0,0 +1,145 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { GlossaryEntry, Language, TranscriptTurn } from '../types';
+import { createEntry, findGlossaryMisses, parseGlossaryCsv, parseGlossaryTbx, toGlossaryCsv, toGlossaryTbx } from './glossary';
+
+// Entries without their random ids, for comparing
+const fields = (entries: GlossaryEntry[]) => entries.map(({ id, ...rest }) => rest);
+
+const turn = (text: string, language: Language | null): TranscriptTurn => ({
+  text,
+  language,
+  startedAt: new Date(0),
+  endedAt: new Date(0)
+});
+
+const ENTRIES: GlossaryEntry[] = [
+  createEntry({ sourceLanguage: 'en-US', source: 'purchase order', targetLanguage: 'it-IT', target: 'ordine di acquisto' }),
+  createEntry({ sourceLanguage: 'en-US', source: 'Smith, Jones & "Partners"', targetLanguage: 'de-DE', target: 'Smith, Jones & <Partner>' }),
+  createEntry({ sourceLanguage: 'en-US', source: 'line one\nline two', targetLanguage: 'fr-FR', target: 'ligne un\nligne deux' }),
+  createEntry({ sourceLanguage: 'en-US', source: 'OmniCorp', targetLanguage: '', target: 'OmniCorp', doNotTranslate: true })
+];
+
+describe('parseGlossaryCsv', () => {
+  it('reads quoted fields with delimiters, quotes and newlines in them', () => {
+    const csv = [
+      'source_language,source,target_language,target,do_not_translate',
+      'en-US,"Smith, Jones & ""Partners""",de-DE,"Smith, Jones & Partner",',
+      'en-US,"line one',
+      'line two",it-IT,"riga uno',
+      'riga due",'
+    ].join('\n');
+    expect(fields(parseGlossaryCsv(csv))).toEqual([
+      { sourceLanguage: 'en-US', source: 'Smith, Jones & "Partners"', targetLanguage: 'de-DE', target: 'Smith, Jones & Partner' },
+      { sourceLanguage: 'en-US', source: 'line one\nline two', targetLanguage: 'it-IT', target: 'riga uno\nriga due' }
+    ]);
+  });
+
+  it('reads what toGlossaryCsv writes', () => {
+    expect(fields(parseGlossaryCsv(toGlossaryCsv(ENTRIES)))).toEqual(fields(ENTRIES));
+  });
+
+  it('reads semicolon-separated files with a BOM and CRLF line ends', () => {
+    const csv = '\uFEFFsource_language;source;target_language;target\r\nde-DE;Vertrag;en-US;"contract; signed"\r\n\r\n';
+    expect(fields(parseGlossaryCsv(csv))).toEqual([
+      { sourceLanguage: 'de-DE', source: 'Vertrag', targetLanguage: 'en-US', target: 'contract; signed' }
+    ]);
+  });
+
+  it('takes the columns in order without a header, and finds them by name with one', () => {
+    expect(fields(parseGlossaryCsv('en-US,invoice,it-IT,fattura'))).toEqual([
+      { sourceLanguage: 'en-US', source: 'invoice', targetLanguage: 'it-IT', target: 'fattura' }
+    ]);
+    expect(fields(parseGlossaryCsv('target,source,target_language,source_language\nfattura,invoice,it,en'))).toEqual([
+      { sourceLanguage: 'en-US', source: 'invoice', targetLanguage: 'it-IT', target: 'fattura' }
+    ]);
+  });
+
+  it('keeps do-not-translate rows and skips rows it cannot use', () => {
+    const csv = [
+      'source_language,source,target_language,target,do_not_translate',
+      ',OmniCorp,,,yes',
+      'xx-XX,unknown,it-IT,sconosciuto,',
+      'en-US,no target,it-IT,,',
+      ',,,,'
+    ].join('\n');
+    expect(fields(parseGlossaryCsv(csv))).toEqual([
+      { sourceLanguage: '', source: 'OmniCorp', targetLanguage: '', target: 'OmniCorp', doNotTranslate: true }
+    ]);
+  });
+});
+
+describe('TBX', () => {
+  it('reads back what it writes, including do-not-translate entries', () => {
+    const tbx = toGlossaryTbx(ENTRIES);
+    expect(tbx).toContain('<note>do-not-translate</note>');
+    const imported = fields(parseGlossaryTbx(tbx));
+    expect(imported).toEqual([
+      ...fields(ENTRIES.slice(0, 3)),
+      // Its one language stands for both sides
+      { sourceLanguage: 'en-US', source: 'OmniCorp', targetLanguage: 'en-US', target: 'OmniCorp', doNotTranslate: true }
+    ]);
+  });
+
+  it('reads TBX v3 concepts in several languages as pairs from the first', () => {
+    const tbx = `<?xml version="1.0" encoding="UTF-8"?>
+<tbx type="TBX-Basic" style="dca" xml:lang="en" xmlns="urn:iso:std:iso:30042:ed-2">
+  <text><body>
+    <conceptEntry id="c1">
+      <langSec xml:lang="en"><termSec><term>invoice</term></termSec></langSec>
+      <langSec xml:lang="it"><termSec><term>fattura</term></termSec></langSec>
+      <langSec xml:lang="de_DE"><termSec><term>Rechnung</term></termSec></langSec>
+      <langSec xml:lang="tlh"><termSec><term>unknown</term></termSec></langSec>
+    </conceptEntry>
+  </body></text>
+</tbx>`;
+    expect(fields(parseGlossaryTbx(tbx))).toEqual([
+      { sourceLanguage: 'en-US', source: 'invoice', targetLanguage: 'it-IT', target: 'fattura' },
+      { sourceLanguage: 'en-US', source: 'invoice', targetLanguage: 'de-DE', target: 'Rechnung' }
+    ]);
+  });
+
+  it('refuses a file that is not XML', () => {
+    expect(() => parseGlossaryTbx('<martif><text>')).toThrow('This TBX file could not be read.');
+  });
+});
+
+describe('findGlossaryMisses', () => {
+  const pair = createEntry({ sourceLanguage: 'en-US', source: 'Cat', targetLanguage: 'it-IT', target: 'gatto' });
+
+  it('ignores case when matching terms', () => {
+    expect(findGlossaryMisses(turn('The CAT sleeps.', 'en-US'), turn('Il Gatto dorme.', 'it-IT'), [pair])).toEqual([]);
+    expect(findGlossaryMisses(turn('the cat sleeps', 'en-US'), turn('Il micio dorme.', 'it-IT'), [pair]))
+      .toEqual([{ source: 'Cat', expected: 'gatto' }]);
+  });
+
+  it('only matches whole words', () => {
+    // "cat" inside another word was never said
+    expect(findGlossaryMisses(turn('Pick a category.', 'en-US'), turn('Scegli una categoria.', 'it-IT'), [pair])).toEqual([]);
+    // ...and the expected term inside another word doesn't count as rendered
+    expect(findGlossaryMisses(turn('A cat.', 'en-US'), turn('Un gattone.', 'it-IT'), [pair]))
+      .toEqual([{ source: 'Cat', expected: 'gatto' }]);
+  });
+
+  it('checks pairs in both directions and regional variants', () => {
+    expect(findGlossaryMisses(turn('Il gatto dorme.', 'it-IT'), turn('The kitty sleeps.', 'en-GB'), [pair]))
+      .toEqual([{ source: 'gatto', expected: 'Cat' }]);
+    // Languages the pair isn't about, or unknown ones, aren't checked
+    expect(findGlossaryMisses(turn('The cat sleeps.', 'en-US'), turn('Le chat dort.', 'fr-FR'), [pair])).toEqual([]);
+    expect(findGlossaryMisses(turn('The cat sleeps.', null), turn('Il micio dorme.', 'it-IT'), [pair])).toEqual([]);
+  });
+
+  it('expects do-not-translate terms verbatim in any language', () => {
+    const keep = createEntry({ sourceLanguage: '', source: 'OmniCorp', targetLanguage: '', target: 'OmniCorp', doNotTranslate: true });
+    expect(findGlossaryMisses(turn('Welcome to OmniCorp.', null), turn('Benvenuti in Omni Corp.', null), [keep]))
+      .toEqual([{ source: 'OmniCorp', expected: 'OmniCorp' }]);
+    expect(findGlossaryMisses(turn('Welcome to omnicorp.', null), turn('Benvenuti da OmniCorp!', null), [keep])).toEqual([]);
+  });
+
+  it('matches terms in scripts written without spaces inside words', () => {
+    const japanese = createEntry({ sourceLanguage: 'en-US', source: 'invoice', targetLanguage: 'ja-JP', target: '請求書' });
+    expect(findGlossaryMisses(turn('Send the invoice.', 'en-US'), turn('請求書を送ってください。', 'ja-JP'), [japanese])).toEqual([]);
+    expect(findGlossaryMisses(turn('Send the invoice.', 'en-US'), turn('インボイスを送ってください。', 'ja-JP'), [japanese]))
+      .toEqual([{ source: 'invoice', expected: '請求書' }]);
+  });
+});
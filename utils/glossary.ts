@@ -0,0 +1,299 @@
+import { GlossaryEntry, Language, TranscriptTurn } from '../types';
+import { baseLanguage, languageLabel, resolveLanguageTag } from './languageRegistry';
+
+const GLOSSARY_KEY = 'glossary_entries';
+
+export function loadGlossary(): GlossaryEntry[] {
+  try {
+    const stored = localStorage.getItem(GLOSSARY_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.error("Failed to load glossary", err);
+    return [];
+  }
+}
+
+export function saveGlossary(entries: GlossaryEntry[]): void {
+  localStorage.setItem(GLOSSARY_KEY, JSON.stringify(entries));
+}
+
+export function createEntry(fields: Omit<GlossaryEntry, 'id'>): GlossaryEntry {
+  return { id: Math.random().toString(36).substring(2), ...fields };
+}
+
+// Regional variants share terminology unless a pair says otherwise
+const sameLanguage = (a: Language, b: Language) => a === b || baseLanguage(a) === baseLanguage(b);
+
+// Does a pair translate between these two languages, in either direction?
+export function entryCoversPair(entry: GlossaryEntry, a: Language, b: Language): boolean {
+  return (sameLanguage(entry.sourceLanguage, a) && sameLanguage(entry.targetLanguage, b))
+    || (sameLanguage(entry.sourceLanguage, b) && sameLanguage(entry.targetLanguage, a));
+}
+
+// Entries that matter for a session in these languages
+export function activeGlossary(entries: GlossaryEntry[], languages: Language[]): GlossaryEntry[] {
+  return entries.filter(entry => {
+    if (entry.doNotTranslate) return entry.source.trim() !== '';
+    return languages.some(a => languages.some(b => a !== b && entryCoversPair(entry, a, b)));
+  });
+}
+
+// Terminology rules for the system instruction, or '' if there are none
+export function compileGlossary(entries: GlossaryEntry[]): string {
+  const keep = entries.filter(entry => entry.doNotTranslate).map(entry => `"${entry.source.trim()}"`);
+  const pairs = entries
+    .filter(entry => !entry.doNotTranslate)
+    .map(entry => `- ${languageLabel(entry.sourceLanguage)} "${entry.source.trim()}" = ${languageLabel(entry.targetLanguage)} "${entry.target.trim()}"`);
+  if (keep.length === 0 && pairs.length === 0) return '';
+
+  const sections = ['Terminology (follow strictly):'];
+  if (keep.length > 0) {
+    sections.push(`- Never translate these names and terms; say them exactly as they are: ${keep.join(', ')}.`);
+  }
+  if (pairs.length > 0) {
+    sections.push('- Always translate these terms exactly as given, in both directions:', ...pairs);
+  }
+  return sections.join('\n');
+}
+
+// Scripts written without spaces between words
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+function containsTerm(text: string, term: string): boolean {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return false;
+  const haystack = text.toLowerCase();
+  if (UNSPACED_SCRIPT.test(needle)) return haystack.includes(needle);
+  const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'u').test(haystack);
+}
+
+export interface GlossaryMiss {
+  source: string; // Term heard in the original
+  expected: string; // Term that should have been in the translation
+}
+
+// Glossary terms heard in the original whose expected rendering is missing
+// from the translation
+export function findGlossaryMisses(
+  original: TranscriptTurn,
+  translation: TranscriptTurn,
+  entries: GlossaryEntry[]
+): GlossaryMiss[] {
+  const from = original.language;
+  const to = translation.language;
+  const misses: GlossaryMiss[] = [];
+
+  for (const entry of entries) {
+    if (entry.doNotTranslate) {
+      if (containsTerm(original.text, entry.source) && !containsTerm(translation.text, entry.source)) {
+        misses.push({ source: entry.source, expected: entry.source });
+      }
+      continue;
+    }
+    if (!from || !to || !entryCoversPair(entry, from, to)) continue;
+
+    const forward = sameLanguage(entry.sourceLanguage, from);
+    const heard = forward ? entry.source : entry.target;
+    const expected = forward ? entry.target : entry.source;
+    if (containsTerm(original.text, heard) && !containsTerm(translation.text, expected)) {
+      misses.push({ source: heard, expected });
+    }
+  }
+  return misses;
+}
+
+const CSV_COLUMNS = ['source_language', 'source', 'target_language', 'target', 'do_not_translate'];
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toGlossaryCsv(entries: GlossaryEntry[]): string {
+  const rows = entries.map(entry => [
+    entry.sourceLanguage,
+    entry.source,
+    entry.targetLanguage,
+    entry.doNotTranslate ? '' : entry.target,
+    entry.doNotTranslate ? 'yes' : ''
+  ].map(csvField).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+// RFC 4180 rows: quoted fields may contain commas, quotes and newlines
+function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// Reads the columns written by toGlossaryCsv. Without a header row the columns
+// are taken in that order. Rows in unsupported languages are skipped.
+export function parseGlossaryCsv(text: string): GlossaryEntry[] {
+  const clean = text.replace(/^\uFEFF/, '');
+  // Spreadsheets in many locales save with semicolons
+  const firstLine = clean.split('\n')[0];
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const rows = parseCsvRows(clean, delimiter);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.includes('source');
+  const column = (name: string) => hasHeader ? header.indexOf(name) : CSV_COLUMNS.indexOf(name);
+
+  const entries: GlossaryEntry[] = [];
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const cell = (name: string) => (row[column(name)] ?? '').trim();
+    const source = cell('source');
+    if (!source) continue;
+
+    const doNotTranslate = /^(yes|y|true|1|x)$/i.test(cell('do_not_translate'));
+    const sourceLanguage = resolveLanguageTag(cell('source_language'));
+    const targetLanguage = resolveLanguageTag(cell('target_language'));
+    if (doNotTranslate) {
+      entries.push(createEntry({
+        sourceLanguage: sourceLanguage ?? '',
+        source,
+        targetLanguage: targetLanguage ?? '',
+        target: source,
+        doNotTranslate: true
+      }));
+    } else if (sourceLanguage && targetLanguage && cell('target')) {
+      entries.push(createEntry({ sourceLanguage, source, targetLanguage, target: cell('target') }));
+    }
+  }
+  return entries;
+}
+
+const DO_NOT_TRANSLATE_NOTE = 'do-not-translate';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// TBX-Basic (ISO 30042, 2008 "martif" form), which most CAT tools import
+export function toGlossaryTbx(entries: GlossaryEntry[]): string {
+  const langSet = (lang: Language, term: string) =>
+    `        <langSet xml:lang="${escapeXml(lang)}">\n          <tig><term>${escapeXml(term)}</term></tig>\n        </langSet>`;
+
+  const termEntries = entries.map((entry, i) => {
+    const body = entry.doNotTranslate
+      ? [`        <note>${DO_NOT_TRANSLATE_NOTE}</note>`, langSet(entry.sourceLanguage || 'und', entry.source)]
+      : [langSet(entry.sourceLanguage, entry.source), langSet(entry.targetLanguage, entry.target)];
+    return [`      <termEntry id="t${i + 1}">`, ...body, '      </termEntry>'].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<martif type="TBX-Basic" xml:lang="en">',
+    '  <martifHeader>',
+    '    <fileDesc><sourceDesc><p>OmniTranslate glossary</p></sourceDesc></fileDesc>',
+    '  </martifHeader>',
+    '  <text>',
+    '    <body>',
+    ...termEntries,
+    '    </body>',
+    '  </text>',
+    '</martif>',
+    ''
+  ].join('\n');
+}
+
+// Reads TBX 2008 (termEntry/langSet) and TBX v3 (conceptEntry/langSec) files.
+// A concept in several languages becomes a pair from its first language to each
+// of the others.
+export function parseGlossaryTbx(xml: string): GlossaryEntry[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("This TBX file could not be read.");
+  }
+
+  const concepts = [
+    ...Array.from(doc.getElementsByTagName('termEntry')),
+    ...Array.from(doc.getElementsByTagName('conceptEntry'))
+  ];
+  const entries: GlossaryEntry[] = [];
+
+  for (const concept of concepts) {
+    const notes = Array.from(concept.querySelectorAll('note, descrip, termNote')).map(el => el.textContent?.trim().toLowerCase());
+    const doNotTranslate = notes.includes(DO_NOT_TRANSLATE_NOTE);
+
+    const terms = Array.from(concept.children)
+      .filter(el => el.localName === 'langSet' || el.localName === 'langSec')
+      .map(el => ({
+        tag: el.getAttribute('xml:lang') ?? el.getAttributeNS('http://www.w3.org/XML/1998/namespace', 'lang') ?? '',
+        term: el.getElementsByTagName('term')[0]?.textContent?.trim() ?? ''
+      }))
+      .filter(item => item.term);
+    if (terms.length === 0) continue;
+
+    if (doNotTranslate) {
+      const language = resolveLanguageTag(terms[0].tag) ?? '';
+      entries.push(createEntry({ sourceLanguage: language, source: terms[0].term, targetLanguage: language, target: terms[0].term, doNotTranslate: true }));
+      continue;
+    }
+
+    const [first, ...rest] = terms;
+    const sourceLanguage = resolveLanguageTag(first.tag);
+    if (!sourceLanguage) continue;
+    for (const other of rest) {
+      const targetLanguage = resolveLanguageTag(other.tag);
+      if (targetLanguage) {
+        entries.push(createEntry({ sourceLanguage, source: first.term, targetLanguage, target: other.term }));
+      }
+    }
+  }
+  return entries;
+}
+
+// Add imported entries, skipping ones already in the glossary
+export function mergeGlossary(existing: GlossaryEntry[], imported: GlossaryEntry[]): GlossaryEntry[] {
+  const key = (entry: GlossaryEntry) => entry.doNotTranslate
+    ? `dnt:${entry.source.toLowerCase()}`
+    : `${entry.sourceLanguage}:${entry.source.toLowerCase()}:${entry.targetLanguage}`;
+  const seen = new Set(existing.map(key));
+  const added = imported.filter(entry => {
+    const k = key(entry);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+  return [...existing, ...added];
+}
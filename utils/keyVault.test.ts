@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setPin, verifyPin } from './deviceLock';
+import { changeVaultPin, openVault, readApiKey, writeApiKey } from './keyVault';
+
+// Just enough of localStorage for the vault and the device lock
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+}
+
+const OLD_PIN = '2468';
+const NEW_PIN = '1357';
+
+// A PIN and a stored key, as after setting up the device and entering a key
+const setUp = async (apiKey: string | null) => {
+  await setPin(OLD_PIN);
+  const key = await openVault(OLD_PIN);
+  if (apiKey) await writeApiKey(key, apiKey);
+};
+
+const storedKeyFor = async (pin: string) => readApiKey(await openVault(pin));
+
+describe('changeVaultPin', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('moves the stored key to the new PIN while the vault is locked', async () => {
+    await setUp('secret-key');
+    // Nothing holds the vault key: the app was never unlocked, or opening the vault failed
+    const result = await changeVaultPin(OLD_PIN, NEW_PIN);
+    expect(result.ok).toBe(true);
+    expect(result.key).not.toBeNull();
+
+    expect((await verifyPin(NEW_PIN)).ok).toBe(true);
+    expect(await storedKeyFor(NEW_PIN)).toBe('secret-key');
+    expect(await readApiKey(result.key!)).toBe('secret-key');
+  });
+
+  it('changes the PIN when no key is stored', async () => {
+    await setUp(null);
+    expect((await changeVaultPin(OLD_PIN, NEW_PIN)).ok).toBe(true);
+    expect((await verifyPin(NEW_PIN)).ok).toBe(true);
+    expect(await storedKeyFor(NEW_PIN)).toBeNull();
+  });
+
+  it('encrypts a key left in plaintext by an older version', async () => {
+    await setPin(OLD_PIN);
+    localStorage.setItem('gemini_api_key', 'legacy-key');
+    await changeVaultPin(OLD_PIN, NEW_PIN);
+    expect(localStorage.getItem('gemini_api_key')).toBeNull();
+    expect(await storedKeyFor(NEW_PIN)).toBe('legacy-key');
+  });
+
+  it('leaves the PIN and the vault alone for a wrong current PIN', async () => {
+    await setUp('secret-key');
+    const result = await changeVaultPin('9753', NEW_PIN);
+    expect(result).toMatchObject({ ok: false, key: null });
+    expect((await verifyPin(OLD_PIN)).ok).toBe(true);
+    expect(await storedKeyFor(OLD_PIN)).toBe('secret-key');
+  });
+
+  it('refuses the change when the current PIN cannot open the vault', async () => {
+    await setUp('secret-key');
+    // The vault was encrypted under some other PIN
+    await setPin('8642');
+    await expect(changeVaultPin('8642', NEW_PIN)).rejects.toThrow(/can't be unlocked/);
+    expect((await verifyPin('8642')).ok).toBe(true);
+    expect(await storedKeyFor(OLD_PIN)).toBe('secret-key');
+  });
+});
@@ -0,0 +1,135 @@
+import { decode, encode } from './audio';
+import { UnlockResult, setPin, verifyPin } from './deviceLock';
+
+const VAULT_KEY = 'api_key_vault';
+// Where the key was kept in plaintext before the vault existed
+const LEGACY_API_KEY = 'gemini_api_key';
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// The API key encrypted with AES-GCM under a key derived from the device PIN.
+// The salt is separate from the PIN hash's, so the stored hash can't be used
+// as the encryption key.
+interface StoredVault {
+  salt: string; // base64
+  iv?: string; // base64, with data when a key is stored
+  data?: string; // base64 ciphertext
+}
+
+function readVault(): StoredVault | null {
+  try {
+    const stored = localStorage.getItem(VAULT_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (err) {
+    console.error("Failed to read the key vault", err);
+    return null;
+  }
+}
+
+function writeVault(vault: StoredVault): void {
+  localStorage.setItem(VAULT_KEY, JSON.stringify(vault));
+}
+
+async function deriveKey(pin: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false, // Never exportable; it only lives in memory while unlocked
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Derive the vault key from the PIN, just after it was verified
+export async function openVault(pin: string): Promise<CryptoKey> {
+  let vault = readVault();
+  if (!vault) {
+    vault = { salt: encode(crypto.getRandomValues(new Uint8Array(SALT_BYTES))) };
+    writeVault(vault);
+  }
+  return deriveKey(pin, decode(vault.salt));
+}
+
+// The stored API key, or null if there is none. A key left in plaintext by an
+// older version is encrypted and the plaintext copy removed.
+export async function readApiKey(key: CryptoKey): Promise<string | null> {
+  const legacy = localStorage.getItem(LEGACY_API_KEY);
+  if (legacy) {
+    await writeApiKey(key, legacy);
+    localStorage.removeItem(LEGACY_API_KEY);
+    return legacy;
+  }
+
+  const vault = readVault();
+  if (!vault?.iv || !vault.data) return null;
+  try {
+    return await decryptApiKey(vault, key);
+  } catch (err) {
+    // Wrong key or tampered data; GCM authentication catches both
+    console.error("Failed to decrypt the stored API key", err);
+    return null;
+  }
+}
+
+async function decryptApiKey(vault: StoredVault, key: CryptoKey): Promise<string> {
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: decode(vault.iv!) }, key, decode(vault.data!));
+  return new TextDecoder().decode(plain);
+}
+
+async function encryptApiKey(key: CryptoKey, apiKey: string): Promise<Pick<StoredVault, 'iv' | 'data'>> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(apiKey));
+  return { iv: encode(iv), data: encode(new Uint8Array(data)) };
+}
+
+export async function writeApiKey(key: CryptoKey, apiKey: string): Promise<void> {
+  const vault = readVault();
+  if (!vault) throw new Error("The key vault has not been opened.");
+  writeVault({ salt: vault.salt, ...await encryptApiKey(key, apiKey) });
+}
+
+export function forgetApiKey(): void {
+  const vault = readVault();
+  if (vault) writeVault({ salt: vault.salt });
+  localStorage.removeItem(LEGACY_API_KEY);
+}
+
+// Replace the PIN after confirming the current one, moving the stored key over
+// to the new PIN. Works whether or not the vault is unlocked: the key is
+// decrypted with the current PIN, so the vault and the PIN never get out of
+// step. A vault the current PIN can't open stops the change rather than lose
+// the key. Returns the new vault key when the PIN was changed.
+export async function changeVaultPin(currentPin: string, newPin: string): Promise<UnlockResult & { key: CryptoKey | null }> {
+  const result = await verifyPin(currentPin);
+  if (!result.ok) return { ...result, key: null };
+
+  const vault = readVault();
+  let apiKey = localStorage.getItem(LEGACY_API_KEY);
+  if (!apiKey && vault?.iv && vault.data) {
+    try {
+      apiKey = await decryptApiKey(vault, await deriveKey(currentPin, decode(vault.salt)));
+    } catch (err) {
+      console.error("Failed to decrypt the stored API key", err);
+      throw new Error("The stored API key can't be unlocked with this PIN. Remove the key before changing the PIN.");
+    }
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(newPin, salt);
+  const rekeyed: StoredVault = { salt: encode(salt), ...(apiKey ? await encryptApiKey(key, apiKey) : {}) };
+
+  writeVault(rekeyed);
+  try {
+    await setPin(newPin);
+  } catch (err) {
+    // The old PIN still stands, so the vault must stay under it too
+    if (vault) writeVault(vault);
+    else localStorage.removeItem(VAULT_KEY);
+    throw err;
+  }
+  localStorage.removeItem(LEGACY_API_KEY);
+  return { ...result, key };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage } from './language';
+import { LANGUAGES, baseLanguage } from './languageRegistry';
+
+// A short, everyday line per registry language, like a transcription fragment
+const SAMPLES: Record<string, string> = {
+  ar: 'مرحبا، كيف حالك؟ أنا سعيد جدا بهذا الاجتماع.',
+  bn: 'আমি আজ খুব খুশি।',
+  nl: 'Ik ben heel blij dat we er zijn.',
+  en: 'Thank you, we are happy to be here today.',
+  fr: "Merci, nous sommes très contents d'être ici.",
+  de: 'Danke, wir sind sehr froh, hier zu sein.',
+  el: 'Ευχαριστώ πολύ, χαίρομαι που είμαι εδώ.',
+  gu: 'આભાર, હું અહીં આવીને ખુશ છું.',
+  he: 'תודה רבה, אני שמח להיות כאן.',
+  hi: 'धन्यवाद, हम यहाँ आकर बहुत खुश हैं।',
+  id: 'Terima kasih, kami sangat senang bisa ada di sini.',
+  it: 'Grazie, siamo molto contenti di essere qui.',
+  ja: 'ありがとうございます、ここに来られてとても嬉しいです。',
+  kn: 'ಧನ್ಯವಾದಗಳು, ಇಲ್ಲಿ ಬಂದಿದ್ದಕ್ಕೆ ಸಂತೋಷವಾಗಿದೆ.',
+  ko: '감사합니다, 여기 와서 정말 기쁩니다.',
+  ml: 'നന്ദി, ഇവിടെ വന്നതിൽ സന്തോഷമുണ്ട്.',
+  cmn: '谢谢，我们很高兴来到这里。',
+  mr: 'धन्यवाद, आम्ही इथे येऊन खूप आनंदी आहोत आणि हे छान आहे.',
+  fa: 'ممنون، ما خیلی خوشحالیم که اینجا هستیم.',
+  pl: 'Dziękuję, jesteśmy bardzo zadowoleni, że tu jesteśmy.',
+  pt: 'Obrigado, estamos muito felizes por estar aqui.',
+  ro: 'Mulțumesc, suntem foarte bucuroși să fim aici.',
+  ru: 'Спасибо, мы очень рады быть здесь.',
+  es: 'Gracias, estamos muy contentos de estar aquí.',
+  sv: 'Tack, vi är mycket glada att vara här.',
+  ta: 'நன்றி, இங்கு வந்ததில் மகிழ்ச்சி.',
+  te: 'ధన్యవాదాలు, ఇక్కడికి రావడం సంతోషంగా ఉంది.',
+  th: 'ขอบคุณมาก ดีใจที่ได้มาที่นี่',
+  tr: 'Teşekkür ederim, burada olmaktan çok mutluyuz.',
+  uk: 'Дякую, ми дуже раді бути тут.',
+  ur: 'شکریہ، ہم یہاں آ کر بہت خوش ہیں۔',
+  vi: 'Cảm ơn, chúng tôi rất vui được ở đây.',
+};
+
+// One code per language; regional variants of a language can't be told apart by text
+const codes = [...new Map(LANGUAGES.map(info => [baseLanguage(info.code), info.code])).values()];
+
+describe('detectLanguage', () => {
+  it('has a sample for every registry language', () => {
+    expect(codes.filter(code => !SAMPLES[baseLanguage(code)])).toEqual([]);
+  });
+
+  // Sessions are usually two languages; each must be told from any other
+  it.each(codes)('tells %s from every other registry language', code => {
+    const sample = SAMPLES[baseLanguage(code)];
+    const confused = codes.filter(other => other !== code && detectLanguage(sample, [code, other]) !== code);
+    expect(confused).toEqual([]);
+  });
+
+  it('returns the code as given in the candidates', () => {
+    expect(detectLanguage(SAMPLES.pt, ['en-US', 'pt-BR'])).toBe('pt-BR');
+    expect(detectLanguage(SAMPLES.pt, ['en-US', 'pt-PT'])).toBe('pt-PT');
+  });
+
+  it('takes Japanese with only a little kana for Japanese, not Chinese', () => {
+    expect(detectLanguage('東京駅で会議室を予約した', ['cmn-CN', 'ja-JP'])).toBe('ja-JP');
+    expect(detectLanguage('会议室已经预订好了', ['cmn-CN', 'ja-JP'])).toBe('cmn-CN');
+  });
+
+  it('matches Indic words with their vowel signs and accents spelled as combining marks', () => {
+    expect(detectLanguage('यह बहुत अच्छा है', ['hi-IN', 'mr-IN'])).toBe('hi-IN');
+    expect(detectLanguage('Cảm ơn rất nhiều'.normalize('NFD'), ['vi-VN', 'en-US'])).toBe('vi-VN');
+  });
+
+  it('gives no answer when the text has no signal', () => {
+    expect(detectLanguage('Maria, 2024', ['en-US', 'it-IT'])).toBeNull();
+    expect(detectLanguage('   ', ['en-US', 'it-IT'])).toBeNull();
+  });
+});
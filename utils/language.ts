@@ -0,0 +1,209 @@
+import { Language, SessionConfig } from '../types';
+import { baseLanguage } from './languageRegistry';
+
+// Short, high-frequency function words per language, keyed by primary subtag.
+// Transcription fragments are often only a few words long, so these give a
+// usable signal without a full model.
+const STOPWORDS: Record<string, string[]> = {
+  it: [
+    'il', 'lo', 'la', 'gli', 'le', 'di', 'che', 'e', 'è', 'un', 'una', 'non', 'per', 'con',
+    'sono', 'del', 'della', 'questo', 'questa', 'mi', 'ci', 'anche', 'come', 'però', 'perché',
+    'grazie', 'buongiorno', 'allora', 'molto', 'nel', 'alla', 'sì', 'ho', 'hai', 'abbiamo'
+  ],
+  en: [
+    'the', 'and', 'is', 'are', 'you', 'to', 'of', 'that', 'it', 'in', 'we', 'this', 'have',
+    'with', 'for', 'not', 'what', 'be', 'was', 'can', 'will', 'would', 'do', 'thank', 'yes',
+    'hello', 'my', 'your', 'they', 'there', "i'm", "it's", "don't", 'please', 'about'
+  ],
+  fr: [
+    'le', 'les', 'des', 'est', 'et', 'je', 'vous', 'nous', 'que', 'qui', 'une', 'pas', 'pour',
+    'dans', 'avec', 'sur', 'ce', 'cette', 'mais', 'oui', 'merci', 'bonjour', 'très', 'aussi',
+    "c'est", "j'ai", 'il', 'elle', 'du', 'au', 'aux', 'être', 'avoir', 'sont'
+  ],
+  de: [
+    'der', 'die', 'das', 'und', 'ist', 'ich', 'sie', 'wir', 'nicht', 'ein', 'eine', 'zu',
+    'mit', 'auf', 'für', 'den', 'dem', 'es', 'auch', 'aber', 'ja', 'danke', 'bitte', 'haben',
+    'sind', 'wie', 'was', 'noch', 'schon', 'guten', 'tag', 'kann', 'wird', 'von', 'bei'
+  ],
+  es: [
+    'el', 'la', 'los', 'las', 'de', 'que', 'y', 'es', 'en', 'un', 'una', 'no', 'por', 'para',
+    'con', 'se', 'lo', 'del', 'al', 'está', 'pero', 'sí', 'muy', 'gracias', 'hola', 'yo',
+    'usted', 'nosotros', 'también', 'porque', 'cuando', 'hay', 'tengo', 'estamos', 'buenos'
+  ],
+  pt: [
+    'o', 'a', 'os', 'as', 'de', 'que', 'e', 'é', 'em', 'um', 'uma', 'não', 'por', 'para',
+    'com', 'se', 'do', 'da', 'no', 'na', 'mas', 'sim', 'muito', 'obrigado', 'obrigada', 'olá',
+    'eu', 'você', 'nós', 'também', 'porque', 'quando', 'tenho', 'estamos', 'isso'
+  ],
+  nl: [
+    'de', 'het', 'een', 'en', 'is', 'van', 'ik', 'je', 'jij', 'wij', 'we', 'niet', 'dat',
+    'die', 'met', 'voor', 'op', 'zijn', 'ook', 'maar', 'ja', 'nee', 'dank', 'alstublieft',
+    'hallo', 'wat', 'hoe', 'er', 'naar', 'hebben', 'kunnen', 'wordt', 'heel', 'goed'
+  ],
+  id: [
+    'yang', 'dan', 'di', 'ini', 'itu', 'dengan', 'untuk', 'tidak', 'ada', 'saya', 'kami', 'kita',
+    'anda', 'akan', 'dari', 'ke', 'juga', 'sudah', 'bisa', 'apa', 'terima', 'kasih', 'tapi',
+    'karena', 'sangat', 'mereka', 'dia', 'atau', 'belum', 'selamat', 'pagi'
+  ],
+  pl: [
+    'nie', 'się', 'jest', 'że', 'jak', 'ale', 'co', 'tak', 'dziękuję', 'proszę', 'dzień', 'dobry',
+    'czy', 'jestem', 'mamy', 'bardzo', 'tego', 'już', 'może', 'być', 'ten', 'są', 'dla', 'mnie',
+    'w', 'z', 'na', 'do', 'po', 'i', 'to'
+  ],
+  ro: [
+    'și', 'şi', 'în', 'este', 'nu', 'la', 'cu', 'pe', 'că', 'un', 'mai', 'pentru', 'sunt', 'ce',
+    'care', 'mulțumesc', 'mulţumesc', 'bună', 'ziua', 'foarte', 'acest', 'această', 'dar', 'să',
+    'vă', 'noi', 'eu', 'aici', 'avem', 'unde'
+  ],
+  sv: [
+    'och', 'är', 'det', 'att', 'jag', 'inte', 'som', 'på', 'med', 'för', 'har', 'vi', 'du',
+    'till', 'av', 'om', 'tack', 'hej', 'nej', 'mycket', 'också', 'men', 'kan', 'ska', 'vad',
+    'här', 'så', 'var', 'bra'
+  ],
+  tr: [
+    'bir', 've', 'bu', 'da', 'için', 'ile', 'çok', 'ne', 'ben', 'sen', 'biz', 'var', 'yok',
+    'değil', 'evet', 'hayır', 'teşekkür', 'ederim', 'merhaba', 'nasıl', 'ama', 'gibi', 'daha',
+    'şey', 'mi', 'mı', 'mu', 'olarak', 'her', 'şimdi'
+  ],
+  vi: [
+    'và', 'là', 'của', 'không', 'có', 'tôi', 'bạn', 'chúng', 'được', 'này', 'một', 'những',
+    'các', 'cho', 'với', 'để', 'người', 'cảm', 'ơn', 'xin', 'chào', 'rất', 'đã', 'sẽ', 'đang',
+    'trong', 'khi', 'thì', 'cũng', 'gì', 'vâng'
+  ],
+  // Russian and Ukrainian share a script; only words that differ between them
+  ru: [
+    'и', 'что', 'это', 'как', 'но', 'мы', 'вы', 'да', 'нет', 'спасибо', 'пожалуйста',
+    'здравствуйте', 'очень', 'его', 'только', 'был', 'уже', 'когда', 'если', 'меня', 'тоже',
+    'сейчас', 'хорошо', 'где', 'ещё', 'или', 'он', 'она', 'они', 'есть', 'можно'
+  ],
+  uk: [
+    'і', 'й', 'та', 'що', 'це', 'як', 'але', 'ми', 'ви', 'ні', 'дякую', 'будь', 'ласка',
+    'привіт', 'дуже', 'його', 'тільки', 'був', 'вже', 'коли', 'якщо', 'мене', 'теж', 'зараз',
+    'добре', 'де', 'ще', 'або', 'є', 'він', 'вона', 'вони', 'можна'
+  ],
+  // Arabic, Persian and Urdu share a script
+  ar: [
+    'في', 'من', 'على', 'إلى', 'هذا', 'هذه', 'أن', 'لا', 'ما', 'هو', 'هي', 'نحن', 'أنا', 'كان',
+    'مع', 'عن', 'شكرا', 'نعم', 'كيف', 'لكن', 'الذي', 'التي', 'هل', 'جدا', 'أيضا', 'ذلك', 'قد',
+    'كل', 'بعد', 'مرحبا', 'السلام', 'عليكم'
+  ],
+  fa: [
+    'و', 'در', 'به', 'از', 'که', 'این', 'را', 'با', 'است', 'برای', 'آن', 'شما', 'نه', 'بله',
+    'خیلی', 'ممنون', 'سلام', 'چه', 'هم', 'یک', 'می', 'بود', 'هست', 'نیست', 'اما', 'چطور',
+    'خوب', 'ولی', 'تا'
+  ],
+  ur: [
+    'ہے', 'کے', 'کی', 'کا', 'میں', 'اور', 'سے', 'کو', 'نہیں', 'یہ', 'وہ', 'ہیں', 'آپ', 'ہم',
+    'تھا', 'کیا', 'بہت', 'شکریہ', 'جی', 'ہاں', 'لیکن', 'بھی', 'پر', 'ایک', 'تو', 'کر', 'رہا',
+    'ہو', 'اس', 'جو'
+  ],
+  // Hindi and Marathi share a script
+  hi: [
+    'है', 'हैं', 'का', 'की', 'के', 'में', 'और', 'से', 'को', 'यह', 'वह', 'नहीं', 'मैं', 'हम',
+    'आप', 'था', 'थी', 'पर', 'भी', 'तो', 'क्या', 'बहुत', 'धन्यवाद', 'नमस्ते', 'हाँ', 'लेकिन',
+    'एक', 'कि', 'जो', 'रहा', 'गया', 'हो'
+  ],
+  mr: [
+    'आहे', 'आहेत', 'आणि', 'हे', 'ते', 'नाही', 'मी', 'आम्ही', 'तुम्ही', 'मध्ये', 'पण', 'होते',
+    'होता', 'खूप', 'नमस्कार', 'काय', 'या', 'त्या', 'आपण', 'कसे', 'आता', 'मला', 'तू', 'आहोत'
+  ],
+};
+
+// Writing systems that only some languages use. Checked in order: kana goes
+// before Han so Japanese text isn't taken for Chinese. Chinese never uses
+// kana, so a little of it is enough, even in kanji-heavy Japanese; Han text
+// without it is taken for Chinese when both are spoken.
+const SCRIPTS: { pattern: RegExp; languages: string[]; ratio?: number; prefer?: string }[] = [
+  { pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu, languages: ['ja'], ratio: 0.05 },
+  { pattern: /\p{Script=Han}/gu, languages: ['cmn', 'zh', 'ja'], prefer: 'cmn' },
+  { pattern: /\p{Script=Hangul}/gu, languages: ['ko'] },
+  { pattern: /\p{Script=Arabic}/gu, languages: ['ar', 'fa', 'ur'] },
+  { pattern: /\p{Script=Hebrew}/gu, languages: ['he'] },
+  { pattern: /\p{Script=Cyrillic}/gu, languages: ['ru', 'uk'] },
+  { pattern: /\p{Script=Greek}/gu, languages: ['el'] },
+  { pattern: /\p{Script=Devanagari}/gu, languages: ['hi', 'mr'] },
+  { pattern: /\p{Script=Bengali}/gu, languages: ['bn'] },
+  { pattern: /\p{Script=Gujarati}/gu, languages: ['gu'] },
+  { pattern: /\p{Script=Kannada}/gu, languages: ['kn'] },
+  { pattern: /\p{Script=Malayalam}/gu, languages: ['ml'] },
+  { pattern: /\p{Script=Tamil}/gu, languages: ['ta'] },
+  { pattern: /\p{Script=Telugu}/gu, languages: ['te'] },
+  { pattern: /\p{Script=Thai}/gu, languages: ['th'] },
+];
+
+// Share of letters a script needs before it decides the language
+const SCRIPT_RATIO = 0.3;
+
+function scoreStopwords(words: string[], candidates: Language[]): Language | null {
+  let best: Language | null = null;
+  let bestScore = 0;
+  let tied = false;
+
+  for (const lang of candidates) {
+    const stopwords = STOPWORDS[baseLanguage(lang)] ?? [];
+    const score = words.reduce((acc, word) => acc + (stopwords.includes(word) ? 1 : 0), 0);
+    if (score > bestScore) {
+      best = lang;
+      bestScore = score;
+      tied = false;
+    } else if (score === bestScore && score > 0) {
+      tied = true;
+    }
+  }
+
+  return tied ? null : best;
+}
+
+// Guess which of the candidate languages a piece of transcribed text is in.
+// Returns null when the text gives no clear signal (e.g. names or numbers only).
+export function detectLanguage(text: string, candidates: Language[]): Language | null {
+  // Transcripts may spell accented letters as combining marks
+  const trimmed = text.trim().normalize('NFC');
+  if (!trimmed) return null;
+
+  const letterCount = trimmed.match(/\p{L}/gu)?.length ?? 0;
+  if (letterCount === 0) return null;
+
+  for (const script of SCRIPTS) {
+    const count = trimmed.match(script.pattern)?.length ?? 0;
+    if (count / letterCount <= (script.ratio ?? SCRIPT_RATIO)) continue;
+    const matches = candidates.filter(lang => script.languages.includes(baseLanguage(lang)));
+    if (matches.length <= 1) return matches[0] ?? null;
+    const preferred = matches.filter(lang => baseLanguage(lang) === script.prefer);
+    if (preferred.length === 1) return preferred[0];
+    candidates = matches;
+    break;
+  }
+
+  // Marks are part of words in Indic scripts, e.g. the vowel signs in है
+  const words: string[] = trimmed.toLowerCase().match(/[\p{L}\p{M}']+/gu) ?? [];
+  return scoreStopwords(words, candidates);
+}
+
+export function pivotLanguageOf(config: SessionConfig): Language {
+  const { pivotLanguage, languages } = config;
+  return pivotLanguage && languages.includes(pivotLanguage) ? pivotLanguage : languages[0];
+}
+
+// Languages an utterance in `source` is rendered into, in speaking order
+export function targetLanguagesFor(source: Language, config: SessionConfig): Language[] {
+  const others = config.languages.filter(lang => lang !== source);
+  if (config.strategy === 'pivot' && others.length > 1) {
+    const pivot = pivotLanguageOf(config);
+    if (source !== pivot) return [pivot];
+  }
+  return others;
+}
+
+// Stereo position for a translation: audio rendered into Language A goes to the
+// left ear (Interlocutor A), audio rendered into Language B to the right ear.
+// Any further languages play in the center.
+export function panForTargetLanguage(
+  target: Language | null,
+  languageA: Language,
+  languageB: Language
+): number {
+  if (target === languageA) return -1;
+  if (target === languageB) return 1;
+  return 0;
+}
@@ -0,0 +1,94 @@
+import { Language, LanguageInfo } from '../types';
+
+// Languages the Live native-audio models can interpret, with regional variants
+// listed separately so the model is told which one to speak
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'ar-EG', name: 'Arabic', nativeName: 'العربية', variant: 'Egypt', voice: 'Orus', rtl: true },
+  { code: 'bn-BD', name: 'Bengali', nativeName: 'বাংলা', voice: 'Aoede' },
+  { code: 'nl-NL', name: 'Dutch', nativeName: 'Nederlands', voice: 'Kore' },
+  { code: 'en-US', name: 'English', nativeName: 'English', variant: 'United States', voice: 'Kore' },
+  { code: 'en-GB', name: 'English', nativeName: 'English', variant: 'United Kingdom', voice: 'Charon' },
+  { code: 'en-AU', name: 'English', nativeName: 'English', variant: 'Australia', voice: 'Puck' },
+  { code: 'en-IN', name: 'English', nativeName: 'English', variant: 'India', voice: 'Aoede' },
+  { code: 'fr-FR', name: 'French', nativeName: 'Français', variant: 'France', voice: 'Leda' },
+  { code: 'fr-CA', name: 'French', nativeName: 'Français', variant: 'Canada', voice: 'Leda' },
+  { code: 'de-DE', name: 'German', nativeName: 'Deutsch', voice: 'Fenrir' },
+  { code: 'el-GR', name: 'Greek', nativeName: 'Ελληνικά', voice: 'Charon' },
+  { code: 'gu-IN', name: 'Gujarati', nativeName: 'ગુજરાતી', voice: 'Aoede' },
+  { code: 'he-IL', name: 'Hebrew', nativeName: 'עברית', voice: 'Orus', rtl: true },
+  { code: 'hi-IN', name: 'Hindi', nativeName: 'हिन्दी', voice: 'Aoede' },
+  { code: 'id-ID', name: 'Indonesian', nativeName: 'Bahasa Indonesia', voice: 'Zephyr' },
+  { code: 'it-IT', name: 'Italian', nativeName: 'Italiano', voice: 'Kore' },
+  { code: 'ja-JP', name: 'Japanese', nativeName: '日本語', voice: 'Leda' },
+  { code: 'kn-IN', name: 'Kannada', nativeName: 'ಕನ್ನಡ', voice: 'Aoede' },
+  { code: 'ko-KR', name: 'Korean', nativeName: '한국어', voice: 'Zephyr' },
+  { code: 'ml-IN', name: 'Malayalam', nativeName: 'മലയാളം', voice: 'Aoede' },
+  { code: 'cmn-CN', name: 'Mandarin Chinese', nativeName: '普通话', voice: 'Kore' },
+  { code: 'mr-IN', name: 'Marathi', nativeName: 'मराठी', voice: 'Aoede' },
+  { code: 'fa-IR', name: 'Persian', nativeName: 'فارسی', voice: 'Charon', rtl: true },
+  { code: 'pl-PL', name: 'Polish', nativeName: 'Polski', voice: 'Fenrir' },
+  { code: 'pt-BR', name: 'Portuguese', nativeName: 'Português', variant: 'Brazil', voice: 'Puck' },
+  { code: 'pt-PT', name: 'Portuguese', nativeName: 'Português', variant: 'Portugal', voice: 'Charon' },
+  { code: 'ro-RO', name: 'Romanian', nativeName: 'Română', voice: 'Zephyr' },
+  { code: 'ru-RU', name: 'Russian', nativeName: 'Русский', voice: 'Fenrir' },
+  { code: 'es-ES', name: 'Spanish', nativeName: 'Español', variant: 'Spain', voice: 'Leda' },
+  { code: 'es-MX', name: 'Spanish', nativeName: 'Español', variant: 'Mexico', voice: 'Puck' },
+  { code: 'es-US', name: 'Spanish', nativeName: 'Español', variant: 'United States', voice: 'Puck' },
+  { code: 'sv-SE', name: 'Swedish', nativeName: 'Svenska', voice: 'Zephyr' },
+  { code: 'ta-IN', name: 'Tamil', nativeName: 'தமிழ்', voice: 'Aoede' },
+  { code: 'te-IN', name: 'Telugu', nativeName: 'తెలుగు', voice: 'Aoede' },
+  { code: 'th-TH', name: 'Thai', nativeName: 'ไทย', voice: 'Leda' },
+  { code: 'tr-TR', name: 'Turkish', nativeName: 'Türkçe', voice: 'Orus' },
+  { code: 'uk-UA', name: 'Ukrainian', nativeName: 'Українська', voice: 'Kore' },
+  { code: 'ur-PK', name: 'Urdu', nativeName: 'اردو', voice: 'Orus', rtl: true },
+  { code: 'vi-VN', name: 'Vietnamese', nativeName: 'Tiếng Việt', voice: 'Zephyr' },
+];
+
+export const DEFAULT_LANGUAGE_A: Language = 'it-IT';
+export const DEFAULT_LANGUAGE_B: Language = 'en-US';
+
+const BY_CODE = new Map(LANGUAGES.map(info => [info.code.toLowerCase(), info]));
+
+// Registry entry for a code. Also accepts the English display names older
+// sessions were stored with.
+export function getLanguage(code: Language): LanguageInfo | undefined {
+  return BY_CODE.get(code.toLowerCase())
+    ?? LANGUAGES.find(info => info.name.toLowerCase() === code.toLowerCase());
+}
+
+// "Portuguese (Brazil)", falling back to whatever was stored
+export function languageLabel(code: Language): string {
+  const info = getLanguage(code);
+  if (!info) return code;
+  return info.variant ? `${info.name} (${info.variant})` : info.name;
+}
+
+// Registry code for a language tag from an imported file: an exact match, or
+// the first variant of the same language ('pt' -> 'pt-BR'). Null if unsupported.
+export function resolveLanguageTag(tag: string): Language | null {
+  const exact = getLanguage(tag.trim().replace('_', '-'));
+  if (exact) return exact.code;
+  const base = tag.trim().split(/[-_]/)[0].toLowerCase();
+  const match = LANGUAGES.find(info => info.code.split('-')[0].toLowerCase() === base)
+    ?? (base === 'zh' ? getLanguage('cmn-CN') : undefined);
+  return match?.code ?? null;
+}
+
+// Primary subtag, e.g. 'pt' for pt-BR
+export function baseLanguage(code: Language): string {
+  return (getLanguage(code)?.code ?? code).split('-')[0].toLowerCase();
+}
+
+export function isRtl(code: Language): boolean {
+  return getLanguage(code)?.rtl ?? false;
+}
+
+// Match against English and native names, variants and codes
+export function searchLanguages(query: string): LanguageInfo[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return LANGUAGES;
+  return LANGUAGES.filter(info => {
+    const text = `${info.name} ${info.nativeName} ${info.variant ?? ''} ${info.code}`.toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { TurnMetrics } from '../types';
+import { formatMs, formatSeconds, latencyStats } from './metrics';
+
+const turn = (firstAudioMs: number | null): TurnMetrics => ({
+  at: new Date(0),
+  firstAudioMs,
+  playbackEndMs: null,
+  audioSeconds: 1,
+  interrupted: false
+});
+
+describe('formatSeconds', () => {
+  it('shows tenths under a minute', () => {
+    expect(formatSeconds(0)).toBe('0.0 s');
+    expect(formatSeconds(12.34)).toBe('12.3 s');
+    expect(formatSeconds(59.5)).toBe('59.5 s');
+  });
+
+  it('rounds before splitting into minutes and seconds', () => {
+    expect(formatSeconds(59.96)).toBe('1 min 0 s');
+    expect(formatSeconds(60)).toBe('1 min 0 s');
+    expect(formatSeconds(119.4)).toBe('1 min 59 s');
+    expect(formatSeconds(119.5)).toBe('2 min 0 s');
+    expect(formatSeconds(119.6)).toBe('2 min 0 s');
+    expect(formatSeconds(3600)).toBe('60 min 0 s');
+  });
+});
+
+describe('formatMs', () => {
+  it('switches to seconds from one second', () => {
+    expect(formatMs(null)).toBe('–');
+    expect(formatMs(999.4)).toBe('999 ms');
+    expect(formatMs(1234)).toBe('1.2 s');
+  });
+});
+
+describe('latencyStats', () => {
+  it('takes nearest-rank percentiles of the measured turns', () => {
+    const turns = [turn(null), ...Array.from({ length: 20 }, (_, i) => turn((20 - i) * 100))];
+    expect(latencyStats(turns, 'firstAudioMs')).toEqual({ turns: 20, medianMs: 1000, p95Ms: 1900, maxMs: 2000 });
+    expect(latencyStats(turns, 'playbackEndMs')).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { SessionMetrics, TurnMetrics } from '../types';
+
+export interface LatencyStats {
+  turns: number; // Turns with a measurable latency
+  medianMs: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p / 100 * sorted.length) - 1)];
+}
+
+export function latencyStats(turns: TurnMetrics[], key: 'firstAudioMs' | 'playbackEndMs'): LatencyStats | null {
+  const values = turns.map(turn => turn[key]).filter((ms): ms is number => ms !== null).sort((a, b) => a - b);
+  if (values.length === 0) return null;
+  return {
+    turns: values.length,
+    medianMs: percentile(values, 50),
+    p95Ms: percentile(values, 95),
+    maxMs: values[values.length - 1]
+  };
+}
+
+export function formatMs(ms: number | null): string {
+  if (ms === null) return '–';
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+// Rounded before splitting into minutes, so 119.6 s is "2 min 0 s", not "1 min 60 s"
+export function formatSeconds(seconds: number): string {
+  const tenths = Math.round(seconds * 10) / 10;
+  if (tenths < 60) return `${tenths.toFixed(1)} s`;
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)} min ${total % 60} s`;
+}
+
+// One line per figure, for plain-text reports
+export function describeMetrics(metrics: SessionMetrics): string[] {
+  const firstAudio = latencyStats(metrics.turns, 'firstAudioMs');
+  const playbackEnd = latencyStats(metrics.turns, 'playbackEndMs');
+  const stats = (s: LatencyStats | null) => s
+    ? `median ${formatMs(s.medianMs)}, p95 ${formatMs(s.p95Ms)}, max ${formatMs(s.maxMs)} over ${s.turns} turn${s.turns === 1 ? '' : 's'}`
+    : 'not measured';
+  return [
+    `Speech end to first translated audio: ${stats(firstAudio)}`,
+    `Speech end to end of playback: ${stats(playbackEnd)}`,
+    `Audio sent: ${formatSeconds(metrics.audioSecondsSent)}, received: ${formatSeconds(metrics.audioSecondsReceived)}`,
+    `Reconnects and rollovers: ${metrics.reconnects}`,
+    `Tokens: ${metrics.totalTokens} (${metrics.promptTokens} prompt, ${metrics.responseTokens} response)`,
+  ];
+}
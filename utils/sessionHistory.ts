@@ -0,0 +1,155 @@
+import { Language, SessionConfig, SessionTranscript, TranscriptExchange, TranscriptTurn } from '../types';
+
+const DB_NAME = 'omnitranslate';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const RETENTION_KEY = 'history_retention_days';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StoredSession extends SessionTranscript {
+  id: string;
+  durationMs: number;
+}
+
+// A stored record, which may predate multi-language sessions
+type StoredRecord = Omit<StoredSession, 'config' | 'exchanges'> & {
+  config: Omit<SessionConfig, 'languages' | 'strategy'> & Partial<SessionConfig> & {
+    languageA?: Language;
+    languageB?: Language;
+  };
+  exchanges: (Omit<TranscriptExchange, 'translations'> & {
+    translations?: TranscriptTurn[];
+    translation?: TranscriptTurn | null;
+  })[];
+};
+
+// Bring a stored record up to the current shape
+function migrateSession(record: StoredRecord): StoredSession {
+  const { languageA, languageB, ...config } = record.config;
+  const exchanges: TranscriptExchange[] = record.exchanges.map(({ translation, ...exchange }) => ({
+    ...exchange,
+    translations: exchange.translations ?? (translation ? [translation] : [])
+  }));
+  return {
+    ...record,
+    config: {
+      ...config,
+      languages: config.languages ?? [languageA!, languageB!],
+      strategy: config.strategy ?? 'broadcast'
+    },
+    exchanges
+  };
+}
+
+// Days to keep sessions: 0 disables history, null keeps sessions until deleted
+export type RetentionDays = number | null;
+
+export const RETENTION_OPTIONS: { value: RetentionDays; label: string }[] = [
+  { value: 0, label: "Off (don't save sessions)" },
+  { value: 1, label: 'Delete after 1 day' },
+  { value: 7, label: 'Delete after 7 days' },
+  { value: 30, label: 'Delete after 30 days' },
+  { value: 90, label: 'Delete after 90 days' },
+  { value: null, label: 'Keep until deleted' },
+];
+
+const DEFAULT_RETENTION_DAYS: RetentionDays = 30;
+
+export function loadRetentionDays(): RetentionDays {
+  const stored = localStorage.getItem(RETENTION_KEY);
+  if (stored === null) return DEFAULT_RETENTION_DAYS;
+  if (stored === 'forever') return null;
+  const days = Number(stored);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+export function saveRetentionDays(days: RetentionDays): void {
+  localStorage.setItem(RETENTION_KEY, days === null ? 'forever' : String(days));
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!window.indexedDB) {
+        reject(new Error("Session history is not available in this browser."));
+        return;
+      }
+      const req = window.indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Run one request in its own transaction
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = action(db.transaction(SESSION_STORE, mode).objectStore(SESSION_STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function saveSession(id: string, session: SessionTranscript): Promise<void> {
+  const record: StoredSession = {
+    ...session,
+    id,
+    durationMs: session.endedAt.getTime() - session.startedAt.getTime()
+  };
+  await run('readwrite', store => store.put(record));
+}
+
+// All stored sessions, newest first
+export async function listSessions(): Promise<StoredSession[]> {
+  const records = await run<StoredRecord[]>('readonly', store => store.getAll());
+  return records.map(migrateSession).sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await run('readwrite', store => store.delete(id));
+}
+
+// Remove sessions older than the retention period, or all of them with history
+// turned off. Returns how many were deleted.
+export async function purgeExpiredSessions(retentionDays: RetentionDays): Promise<number> {
+  if (retentionDays === null) return 0;
+  if (retentionDays === 0) {
+    const count = await run('readonly', store => store.count());
+    await run('readwrite', store => store.clear());
+    return count;
+  }
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+  const expired = await run<IDBValidKey[]>('readonly', store =>
+    store.index('startedAt').getAllKeys(IDBKeyRange.upperBound(cutoff))
+  );
+  await Promise.all(expired.map(id => run('readwrite', store => store.delete(id))));
+  return expired.length;
+}
+
+// Case-insensitive match of every query word against originals and translations
+export function searchSessions(sessions: StoredSession[], query: string): StoredSession[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return sessions;
+  return sessions.filter(session => {
+    const text = session.exchanges
+      .map(exchange => [exchange.original, ...exchange.translations].map(turn => turn?.text ?? '').join(' '))
+      .join(' ')
+      .toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+}
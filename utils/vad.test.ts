@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { VadResult, VoiceActivityDetector, rmsDb } from './vad';
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 20;
+const FRAME_SAMPLES = SAMPLE_RATE * FRAME_MS / 1000;
+
+// Frames are built from a running sample index, so consecutive ones join up
+let clock = 0;
+
+// PCM16 frame scaled so its RMS is `db` dBFS
+const frame = (signal: (n: number) => number, db: number): ArrayBuffer => {
+  const raw = Float64Array.from({ length: FRAME_SAMPLES }, (_, i) => signal(clock + i));
+  clock += FRAME_SAMPLES;
+  const rms = Math.sqrt(raw.reduce((sum, x) => sum + x * x, 0) / raw.length) || 1;
+  const gain = 10 ** (db / 20) / rms * 0x8000;
+  return Int16Array.from(raw, x => Math.round(x * gain)).buffer;
+};
+
+// A voice-like sound: a 150 Hz fundamental with falling harmonics up to 3 kHz
+const voice = (db: number = -20) => frame(n => {
+  let x = 0;
+  for (let h = 1; h * 150 <= 3000; h++) x += Math.sin(2 * Math.PI * 150 * h * n / SAMPLE_RATE) / h;
+  return x;
+}, db);
+
+// Deterministic white noise
+let seed = 1;
+const noise = (db: number) => frame(() => {
+  seed = (seed * 1103515245 + 12345) % 2 ** 31;
+  return seed / 2 ** 30 - 1;
+}, db);
+
+const tone = (hz: number, db: number) => frame(n => Math.sin(2 * Math.PI * hz * n / SAMPLE_RATE), db);
+const silence = () => new ArrayBuffer(FRAME_SAMPLES * 2);
+
+const feed = (vad: VoiceActivityDetector, frames: ArrayBuffer[]): VadResult[] => frames.map(pcm => vad.process(pcm));
+const times = <T,>(count: number, make: () => T): T[] => Array.from({ length: count }, make);
+
+describe('VoiceActivityDetector', () => {
+  it('builds frames at the level asked for', () => {
+    expect(rmsDb(new Int16Array(voice(-20)))).toBeCloseTo(-20, 1);
+    expect(rmsDb(new Int16Array(noise(-35)))).toBeCloseTo(-35, 1);
+  });
+
+  it('opens an utterance after 60ms of speech, with the audio just before it', () => {
+    const vad = new VoiceActivityDetector(SAMPLE_RATE);
+    const quiet = feed(vad, times(20, silence));
+    expect(quiet.every(result => !result.voiced && !result.isSpeech)).toBe(true);
+
+    const speech = times(3, () => voice());
+    const results = feed(vad, speech);
+    expect(results.map(result => result.voiced)).toEqual([true, true, true]);
+    expect(results.map(result => result.started)).toEqual([false, false, true]);
+    expect(results.map(result => result.isSpeech)).toEqual([false, false, true]);
+    // 300ms of pre-roll, ending with the first syllables that were held back
+    expect(results[2].preroll).toHaveLength(300 / FRAME_MS);
+    expect(results[2].preroll.slice(-2)).toEqual(speech.slice(0, 2));
+    expect(vad.isSpeech).toBe(true);
+  });
+
+  it('ignores clicks too short to be speech', () => {
+    const vad = new VoiceActivityDetector(SAMPLE_RATE);
+    feed(vad, times(10, silence));
+    const results = feed(vad, [voice(), voice(), silence(), voice(), voice(), silence()]);
+    expect(results.some(result => result.started)).toBe(false);
+    expect(vad.isSpeech).toBe(false);
+  });
+
+  it('holds the utterance open through pauses and closes it after 600ms of quiet', () => {
+    const vad = new VoiceActivityDetector(SAMPLE_RATE);
+    feed(vad, [...times(10, silence), ...times(5, () => voice())]);
+
+    // A pause between words
+    const pause = feed(vad, [...times(25, silence), voice()]);
+    expect(pause.every(result => result.isSpeech && !result.ended)).toBe(true);
+
+    const end = feed(vad, times(30, silence));
+    expect(end.findIndex(result => result.ended)).toBe(600 / FRAME_MS - 1);
+    expect(end.filter(result => result.ended)).toHaveLength(1);
+    expect(end[29].isSpeech).toBe(false);
+    expect(vad.isSpeech).toBe(false);
+  });
+
+  it('needs speech to stand out from the room noise it has learned', () => {
+    // A steady fan-like noise well above MIN_SPEECH_DB
+    const vad = new VoiceActivityDetector(SAMPLE_RATE);
+    feed(vad, times(50, () => noise(-40)));
+    expect(vad.process(voice(-36)).voiced).toBe(false);
+    expect(vad.process(voice(-20)).voiced).toBe(true);
+  });
+
+  it('lets sensitivity move the threshold above the noise floor', () => {
+    const voicedAt = (sensitivity: number) => {
+      const vad = new VoiceActivityDetector(SAMPLE_RATE, sensitivity);
+      feed(vad, times(50, () => noise(-40)));
+      // 8 dB over the noise: above 16 - 10 * s only when sensitive
+      return vad.process(voice(-32)).voiced;
+    };
+    expect(voicedAt(1)).toBe(true);
+    expect(voicedAt(0)).toBe(false);
+  });
+
+  it('does not take noise, rumble, hiss or near-silence for speech', () => {
+    const vad = new VoiceActivityDetector(SAMPLE_RATE, 1);
+    feed(vad, times(10, silence));
+    expect(vad.process(noise(-20)).voiced).toBe(false);
+    expect(vad.process(tone(40, -20)).voiced).toBe(false);
+    expect(vad.process(tone(6000, -20)).voiced).toBe(false);
+    expect(vad.process(voice(-60)).voiced).toBe(false);
+  });
+
+  it('forgets the utterance and the room on reset', () => {
+    const vad = new VoiceActivityDetector(SAMPLE_RATE);
+    feed(vad, [...times(10, silence), ...times(5, () => voice())]);
+    vad.reset();
+    expect(vad.isSpeech).toBe(false);
+    const results = feed(vad, [...times(5, silence), ...times(3, () => voice())]);
+    expect(results[7].started).toBe(true);
+    // Only what came after the reset
+    expect(results[7].preroll).toHaveLength(7);
+  });
+});
@@ -0,0 +1,198 @@
+// On-device voice activity detection for PCM16 mic frames, so silence and
+// room noise aren't streamed to the model
+
+export const DEFAULT_VAD_SENSITIVITY = 0.5;
+
+// Speech must last this long before it counts, which skips clicks and bumps
+const ONSET_MS = 60;
+// Speech is held open this long after the last voiced frame, so pauses
+// between words don't split an utterance
+const HANGOVER_MS = 600;
+// Audio from just before the onset, sent with it so first syllables aren't cut
+const PREROLL_MS = 300;
+
+// Frames quieter than this are never speech, however quiet the room
+const MIN_SPEECH_DB = -55;
+// Voiced speech has nearly all its energy between the lowest pitch and the
+// upper formants; rumble and hiss fall outside
+const SPEECH_BAND_HZ = [80, 4000];
+const MIN_BAND_RATIO = 0.6;
+const MAX_FFT_SIZE = 512;
+
+export interface VadResult {
+  voiced: boolean; // This frame itself sounded like speech
+  isSpeech: boolean; // Inside an utterance, including its hangover
+  started: boolean; // This frame opened an utterance
+  ended: boolean; // This frame closed one
+  preroll: ArrayBuffer[]; // On start, the frames just before this one
+}
+
+// Energy and spectral speech detector with onset, hangover and pre-roll.
+// Sensitivity runs from 0 (only clear, loud speech) to 1 (anything voice-like).
+export class VoiceActivityDetector {
+  private sampleRate: number;
+  private thresholdDb = 0;
+  private maxFlatness = 0;
+
+  private noiseFloorDb: number | null = null;
+  private active = false;
+  private voicedMs = 0; // Consecutive voiced audio while inactive
+  private silentMs = 0; // Audio since the last voiced frame while active
+  private recent: { pcm: ArrayBuffer; ms: number }[] = [];
+
+  constructor(sampleRate: number, sensitivity: number = DEFAULT_VAD_SENSITIVITY) {
+    this.sampleRate = sampleRate;
+    this.setSensitivity(sensitivity);
+  }
+
+  get isSpeech(): boolean {
+    return this.active;
+  }
+
+  setSensitivity(sensitivity: number): void {
+    const s = Math.max(0, Math.min(1, sensitivity));
+    // How far above the room's noise floor speech has to be
+    this.thresholdDb = 16 - 10 * s;
+    // Noise is spectrally flat, voiced speech is peaky
+    this.maxFlatness = 0.25 + 0.25 * s;
+  }
+
+  reset(): void {
+    this.noiseFloorDb = null;
+    this.active = false;
+    this.voicedMs = 0;
+    this.silentMs = 0;
+    this.recent = [];
+  }
+
+  process(pcm: ArrayBuffer): VadResult {
+    const samples = new Int16Array(pcm);
+    const frameMs = samples.length / this.sampleRate * 1000;
+    const levelDb = rmsDb(samples);
+    const voiced = this.isVoiced(samples, levelDb);
+    this.trackNoiseFloor(levelDb, voiced);
+
+    if (!this.active) {
+      this.voicedMs = voiced ? this.voicedMs + frameMs : 0;
+      if (this.voicedMs >= ONSET_MS) {
+        this.active = true;
+        this.silentMs = 0;
+        const preroll = this.recent.map(frame => frame.pcm);
+        this.recent = [];
+        return { voiced, isSpeech: true, started: true, ended: false, preroll };
+      }
+      this.remember(pcm, frameMs);
+      return { voiced, isSpeech: false, started: false, ended: false, preroll: [] };
+    }
+
+    this.silentMs = voiced ? 0 : this.silentMs + frameMs;
+    if (this.silentMs >= HANGOVER_MS) {
+      this.active = false;
+      this.voicedMs = 0;
+      return { voiced, isSpeech: false, started: false, ended: true, preroll: [] };
+    }
+    return { voiced, isSpeech: true, started: false, ended: false, preroll: [] };
+  }
+
+  private isVoiced(samples: Int16Array, levelDb: number): boolean {
+    if (levelDb < MIN_SPEECH_DB) return false;
+    if (this.noiseFloorDb !== null && levelDb < this.noiseFloorDb + this.thresholdDb) return false;
+    const { bandRatio, flatness } = spectralFeatures(samples, this.sampleRate);
+    return bandRatio > MIN_BAND_RATIO && flatness < this.maxFlatness;
+  }
+
+  // Follows the quietest recent level: drops quickly, creeps up slowly so a
+  // steady noise like a fan is learned but a long speech isn't
+  private trackNoiseFloor(levelDb: number, voiced: boolean): void {
+    if (this.noiseFloorDb === null) {
+      this.noiseFloorDb = Math.max(levelDb, MIN_SPEECH_DB - 10);
+    } else if (levelDb < this.noiseFloorDb) {
+      this.noiseFloorDb = 0.7 * this.noiseFloorDb + 0.3 * levelDb;
+    } else if (!voiced) {
+      this.noiseFloorDb = 0.98 * this.noiseFloorDb + 0.02 * levelDb;
+    }
+  }
+
+  private remember(pcm: ArrayBuffer, ms: number): void {
+    this.recent.push({ pcm, ms });
+    let total = this.recent.reduce((sum, frame) => sum + frame.ms, 0);
+    while (total > PREROLL_MS && this.recent.length > 1) {
+      total -= this.recent.shift()!.ms;
+    }
+  }
+}
+
+export function rmsDb(samples: Int16Array): number {
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i] / 0x8000;
+    sumSquares += s * s;
+  }
+  return 10 * Math.log10(sumSquares / Math.max(1, samples.length) + 1e-12);
+}
+
+// Share of the energy in the speech band, and spectral flatness (geometric
+// over arithmetic mean of the power) within it
+function spectralFeatures(samples: Int16Array, sampleRate: number): { bandRatio: number; flatness: number } {
+  let size = MAX_FFT_SIZE;
+  while (size > samples.length) size /= 2;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  // Centre the window on the frame, Hann-shaped to limit leakage
+  const offset = Math.floor((samples.length - size) / 2);
+  for (let i = 0; i < size; i++) {
+    re[i] = samples[offset + i] / 0x8000 * (0.5 - 0.5 * Math.cos(2 * Math.PI * i / (size - 1)));
+  }
+  fft(re, im);
+
+  // Only bins wholly inside the band: with short frames the first bin is wide
+  // enough to take in rumble well below it
+  const low = Math.ceil(SPEECH_BAND_HZ[0] * size / sampleRate);
+  const high = Math.floor(SPEECH_BAND_HZ[1] * size / sampleRate);
+  let total = 0;
+  let band = 0;
+  let logSum = 0;
+  let bins = 0;
+  for (let k = 1; k < size / 2; k++) {
+    const power = re[k] * re[k] + im[k] * im[k] + 1e-12;
+    total += power;
+    if (k >= low && k <= high) {
+      band += power;
+      logSum += Math.log(power);
+      bins++;
+    }
+  }
+  const flatness = bins > 0 ? Math.exp(logSum / bins) / (band / bins) : 1;
+  return { bandRatio: total > 0 ? band / total : 0, flatness };
+}
+
+// In-place iterative radix-2 FFT; the length must be a power of two
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = -2 * Math.PI / len;
+    for (let i = 0; i < n; i += len) {
+      for (let k = 0; k < len / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = i + k;
+        const b = a + len / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
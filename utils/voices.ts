@@ -0,0 +1,64 @@
+import { Language } from '../types';
+import { getLanguage } from './languageRegistry';
+
+export interface VoiceInfo {
+  name: string;
+  style: string; // How the voice sounds, as described by the API docs
+}
+
+// Prebuilt voices the Live native-audio models speak with
+export const VOICES: VoiceInfo[] = [
+  { name: 'Achernar', style: 'Soft' },
+  { name: 'Achird', style: 'Friendly' },
+  { name: 'Algenib', style: 'Gravelly' },
+  { name: 'Algieba', style: 'Smooth' },
+  { name: 'Alnilam', style: 'Firm' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Autonoe', style: 'Bright' },
+  { name: 'Callirrhoe', style: 'Easy-going' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Despina', style: 'Smooth' },
+  { name: 'Enceladus', style: 'Breathy' },
+  { name: 'Erinome', style: 'Clear' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Gacrux', style: 'Mature' },
+  { name: 'Iapetus', style: 'Clear' },
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Laomedeia', style: 'Upbeat' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Pulcherrima', style: 'Forward' },
+  { name: 'Rasalgethi', style: 'Informative' },
+  { name: 'Sadachbia', style: 'Lively' },
+  { name: 'Sadaltager', style: 'Knowledgeable' },
+  { name: 'Schedar', style: 'Even' },
+  { name: 'Sulafat', style: 'Warm' },
+  { name: 'Umbriel', style: 'Easy-going' },
+  { name: 'Vindemiatrix', style: 'Gentle' },
+  { name: 'Zephyr', style: 'Bright' },
+  { name: 'Zubenelgenubi', style: 'Casual' },
+];
+
+export const DEFAULT_VOICE = 'Kore';
+
+const INTERPRETER_VOICE_KEY = 'interpreter_voice';
+
+// Voice picked for the interpreter, if any, remembered across sessions
+export function loadInterpreterVoice(): string | null {
+  return localStorage.getItem(INTERPRETER_VOICE_KEY);
+}
+
+export function saveInterpreterVoice(voice: string): void {
+  localStorage.setItem(INTERPRETER_VOICE_KEY, voice);
+}
+
+// The picked voice, otherwise the first language's registry default
+export function sessionVoiceFor(languages: Language[], picked: string | null): string {
+  return picked ?? getLanguage(languages[0])?.voice ?? DEFAULT_VOICE;
+}
+
+export function voiceLabel(name: string): string {
+  const info = VOICES.find(voice => voice.name === name);
+  return info ? `${info.name} (${info.style})` : name;
+}
@@ -0,0 +1,45 @@
+export const WAV_HEADER_BYTES = 44;
+
+// Canonical 44-byte header for mono 16-bit PCM
+function wavHeader(dataBytes: number, sampleRate: number): ArrayBuffer {
+  const header = new ArrayBuffer(WAV_HEADER_BYTES);
+  const view = new DataView(header);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataBytes, true);
+  return header;
+}
+
+// Wrap mono Int16 PCM parts in a WAV file without concatenating them first
+export function encodeWav(parts: ArrayBuffer[], sampleRate: number): Blob {
+  const dataBytes = parts.reduce((sum, part) => sum + part.byteLength, 0);
+  return new Blob([wavHeader(dataBytes, sampleRate), ...parts], { type: 'audio/wav' });
+}
+
+// Cut [startMs, endMs) out of a WAV produced by encodeWav
+export async function sliceWav(wav: Blob, startMs: number, endMs: number): Promise<Blob> {
+  const header = new DataView(await wav.slice(0, WAV_HEADER_BYTES).arrayBuffer());
+  const sampleRate = header.getUint32(24, true);
+  const totalSamples = (wav.size - WAV_HEADER_BYTES) / 2;
+
+  const toSample = (ms: number) => Math.max(0, Math.min(totalSamples, Math.round(ms * sampleRate / 1000)));
+  const start = toSample(startMs);
+  const end = Math.max(start, toSample(endMs));
+
+  const data = await wav.slice(WAV_HEADER_BYTES + start * 2, WAV_HEADER_BYTES + end * 2).arrayBuffer();
+  return encodeWav([data], sampleRate);
+}